@@ -0,0 +1,265 @@
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { createClient } from "@supabase/supabase-js";
+import type { Plugin } from "vite";
+import type { Database } from "../src/integrations/supabase/types";
+import { blogExcerpt, parseBlogMedia } from "../src/lib/blog";
+import {
+  absoluteUrl,
+  blogPostingJsonLd,
+  DEFAULT_DESCRIPTION,
+  DEFAULT_IMAGE,
+  productJsonLd,
+  SITE_NAME,
+  toDescription,
+  type JsonLd,
+} from "../src/lib/seo";
+
+interface PrerenderOptions {
+  supabaseUrl?: string;
+  supabaseKey?: string;
+  // Public origin of the site, e.g. https://aagnanaturals.com
+  siteUrl?: string;
+}
+
+interface Page {
+  route: string;
+  title?: string;
+  description: string;
+  image?: string | null;
+  type: "website" | "product" | "article";
+  jsonLd?: JsonLd;
+  body: string;
+  lastmod?: string | null;
+}
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+
+// JSON-LD lives inside a <script>, so "</script>" in a description must not close it
+const serializeJsonLd = (json: JsonLd) => JSON.stringify(json).replace(/</g, "\\u003c");
+
+const routeFile = (outDir: string, route: string) => path.join(outDir, route, "index.html");
+
+const renderHead = (page: Page, origin: string) => {
+  const title = page.title ? `${page.title} | ${SITE_NAME}` : SITE_NAME;
+  const url = absoluteUrl(page.route, origin);
+  const image = absoluteUrl(page.image || DEFAULT_IMAGE, origin);
+
+  const tags = [
+    `<title>${escapeHtml(title)}</title>`,
+    `<meta name="description" content="${escapeHtml(page.description)}" />`,
+    `<meta property="og:title" content="${escapeHtml(title)}" />`,
+    `<meta property="og:description" content="${escapeHtml(page.description)}" />`,
+    `<meta property="og:type" content="${page.type}" />`,
+    `<meta property="og:url" content="${escapeHtml(url)}" />`,
+    `<meta property="og:site_name" content="${SITE_NAME}" />`,
+    `<meta property="og:image" content="${escapeHtml(image)}" />`,
+    `<meta name="twitter:card" content="summary_large_image" />`,
+    `<meta name="twitter:title" content="${escapeHtml(title)}" />`,
+    `<meta name="twitter:description" content="${escapeHtml(page.description)}" />`,
+    `<meta name="twitter:image" content="${escapeHtml(image)}" />`,
+    `<link rel="canonical" href="${escapeHtml(url)}" />`,
+  ];
+  if (page.jsonLd) {
+    tags.push(`<script id="route-json-ld" type="application/ld+json">${serializeJsonLd(page.jsonLd)}</script>`);
+  }
+  return tags.join("\n    ");
+};
+
+// Swap the shell's default title and social tags for the page's own; React replaces the body on mount
+const renderPage = (shell: string, page: Page, origin: string) =>
+  shell
+    .replace(/\s*<title>.*?<\/title>/s, "")
+    .replace(/\s*<meta (?:name|property)="(?:description|og:[^"]+|twitter:[^"]+)"[^>]*>/g, "")
+    .replace(/\s*<!-- Social Share[^>]*-->/, "")
+    .replace("</head>", `  ${renderHead(page, origin)}\n  </head>`)
+    .replace('<div id="root"></div>', `<div id="root">${page.body}</div>`);
+
+const renderSitemap = (pages: Page[], origin: string) => {
+  const urls = pages.map((page) => {
+    const lastmod = page.lastmod ? `\n    <lastmod>${page.lastmod.slice(0, 10)}</lastmod>` : "";
+    return `  <url>\n    <loc>${escapeHtml(absoluteUrl(page.route, origin))}</loc>${lastmod}\n  </url>`;
+  });
+  return `<?xml version="1.0" encoding="UTF-8"?>\n<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">\n${urls.join("\n")}\n</urlset>\n`;
+};
+
+const link = (href: string, text: string) => `<a href="${escapeHtml(href)}">${escapeHtml(text)}</a>`;
+
+const fetchCatalog = async (supabaseUrl: string, supabaseKey: string) => {
+  const supabase = createClient<Database>(supabaseUrl, supabaseKey, {
+    auth: { persistSession: false },
+  });
+
+  const [products, blogs, categories] = await Promise.all([
+    supabase
+      .from("products")
+      .select(
+        "name, slug, description, price, image_url, stock_count, average_rating, review_count, updated_at, product_variants(name, sku, price, stock_count, is_active, sort_order), product_images(url, sort_order)"
+      )
+      .eq("is_active", true)
+      .order("name"),
+    supabase
+      .from("blogs")
+      .select("title, slug, content, excerpt, image_url, media, created_at, updated_at")
+      .eq("is_published", true)
+      .order("created_at", { ascending: false }),
+    supabase.from("categories").select("name, slug, description, updated_at").order("sort_order"),
+  ]);
+
+  if (products.error) throw products.error;
+  if (blogs.error) throw blogs.error;
+  if (categories.error) throw categories.error;
+
+  return { products: products.data, blogs: blogs.data, categories: categories.data };
+};
+
+type Catalog = Awaited<ReturnType<typeof fetchCatalog>>;
+
+const buildPages = ({ products, blogs, categories }: Catalog, origin: string): Page[] => {
+  const productPages = products.map((product): Page => {
+    const variants = product.product_variants
+      .filter((v) => v.is_active)
+      .sort((a, b) => a.sort_order - b.sort_order);
+    const images = [...product.product_images].sort((a, b) => a.sort_order - b.sort_order).map((i) => i.url);
+    const price = variants.length > 0 ? Math.min(...variants.map((v) => v.price)) : product.price;
+
+    return {
+      route: `/products/${product.slug}`,
+      title: product.name,
+      description: toDescription(product.description, product.name),
+      image: product.image_url,
+      type: "product",
+      jsonLd: productJsonLd({ ...product, images, variants }, origin),
+      lastmod: product.updated_at,
+      body: [
+        `<h1>${escapeHtml(product.name)}</h1>`,
+        product.image_url ? `<img src="${escapeHtml(product.image_url)}" alt="${escapeHtml(product.name)}" />` : "",
+        `<p>${variants.length > 0 ? "From " : ""}$${price.toFixed(2)}</p>`,
+        product.description ? `<p>${escapeHtml(product.description)}</p>` : "",
+        link("/products", "All products"),
+      ].join(""),
+    };
+  });
+
+  const blogPages = blogs.map((blog): Page => {
+    const description = toDescription(blogExcerpt(blog));
+    const image = parseBlogMedia(blog.media).find((m) => m.type === "image")?.url || blog.image_url;
+
+    return {
+      route: `/blog/${blog.slug}`,
+      title: blog.title,
+      description,
+      image,
+      type: "article",
+      jsonLd: blogPostingJsonLd({ ...blog, description, image }, origin),
+      lastmod: blog.updated_at ?? blog.created_at,
+      body: `<article><h1>${escapeHtml(blog.title)}</h1><p>${escapeHtml(blog.content)}</p></article>`,
+    };
+  });
+
+  const productLinks = products.map((p) => `<li>${link(`/products/${p.slug}`, p.name)}</li>`).join("");
+  const blogLinks = blogs.map((b) => `<li>${link(`/blog/${b.slug}`, b.title)}</li>`).join("");
+
+  // Category pages are client-filtered views of /products, so they only go in the sitemap
+  const categoryPages = categories.map(
+    (category): Page => ({
+      route: `/products/category/${category.slug}`,
+      title: category.name,
+      description: toDescription(category.description),
+      type: "website",
+      lastmod: category.updated_at,
+      body: "",
+    })
+  );
+
+  return [
+    {
+      route: "/",
+      description: DEFAULT_DESCRIPTION,
+      type: "website",
+      body: `<h1>${SITE_NAME}</h1><p>${escapeHtml(DEFAULT_DESCRIPTION)}</p>${link("/products", "Shop products")}`,
+    },
+    {
+      route: "/products",
+      title: "Our Products",
+      description: "Discover authentic Ayurvedic wellness products",
+      type: "website",
+      body: `<h1>Our Products</h1><ul>${productLinks}</ul>`,
+    },
+    {
+      route: "/blog",
+      title: "Ayurveda Blog",
+      description: "Discover ancient wisdom and modern wellness insights from Aagna Naturals.",
+      type: "website",
+      body: `<h1>Ayurveda Blog</h1><ul>${blogLinks}</ul>`,
+    },
+    ...productPages,
+    ...blogPages,
+    ...categoryPages,
+  ];
+};
+
+// Writes static HTML for the home page, catalog, product pages and blog posts after `vite build`,
+// plus sitemap.xml and robots.txt. The untouched SPA shell is kept as app.html for every other route.
+export function prerender({ supabaseUrl, supabaseKey, siteUrl }: PrerenderOptions): Plugin {
+  let outDir = "dist";
+  let publicDir = "public";
+
+  return {
+    name: "aagna-prerender",
+    apply: "build",
+    configResolved(config) {
+      outDir = path.resolve(config.root, config.build.outDir);
+      publicDir = config.publicDir;
+    },
+    async closeBundle() {
+      // base is "./" so nested routes need root-relative asset URLs.
+      // The host rewrites every unmatched route to app.html, so it is written even without SITE_URL
+      const shell = (await readFile(path.join(outDir, "index.html"), "utf-8")).replace(/(src|href)="\.\//g, '$1="/');
+      await writeFile(path.join(outDir, "app.html"), shell);
+
+      if (!siteUrl) {
+        console.warn("[prerender] SITE_URL is not set, skipping prerender and sitemap");
+        return;
+      }
+      const origin = new URL(siteUrl).origin;
+
+      let catalog: Catalog = { products: [], blogs: [], categories: [] };
+      if (supabaseUrl && supabaseKey) {
+        // Failing the build beats deploying a site whose product pages and sitemap entries have vanished
+        try {
+          catalog = await fetchCatalog(supabaseUrl, supabaseKey);
+        } catch (err) {
+          throw new Error(`[prerender] Could not load catalog: ${(err as Error).message}`);
+        }
+      } else {
+        console.warn("[prerender] Supabase env is not set, prerendering static pages only");
+      }
+
+      const pages = buildPages(catalog, origin);
+      const rendered = pages.filter((page) => page.body);
+
+      for (const page of rendered) {
+        const file = routeFile(outDir, page.route);
+        await mkdir(path.dirname(file), { recursive: true });
+        await writeFile(file, renderPage(shell, page, origin));
+      }
+
+      await writeFile(path.join(outDir, "sitemap.xml"), renderSitemap(pages, origin));
+
+      const robots = await readFile(path.join(publicDir, "robots.txt"), "utf-8").catch(() => "User-agent: *\nAllow: /\n");
+      await writeFile(
+        path.join(outDir, "robots.txt"),
+        `${robots.trimEnd()}\n\nSitemap: ${absoluteUrl("/sitemap.xml", origin)}\n`
+      );
+
+      console.log(`[prerender] ${rendered.length} pages, ${pages.length} sitemap entries`);
+    },
+  };
+}
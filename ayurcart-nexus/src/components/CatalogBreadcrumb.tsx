@@ -0,0 +1,54 @@
+import { Fragment } from "react";
+import { Link } from "react-router-dom";
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbPage,
+  BreadcrumbSeparator,
+} from "@/components/ui/breadcrumb";
+import type { Category } from "@/lib/categories";
+
+interface CatalogBreadcrumbProps {
+  trail: Category[];
+}
+
+export const CatalogBreadcrumb = ({ trail }: CatalogBreadcrumbProps) => {
+  return (
+    <Breadcrumb className="mb-4">
+      <BreadcrumbList>
+        <BreadcrumbItem>
+          <BreadcrumbLink asChild>
+            <Link to="/">Home</Link>
+          </BreadcrumbLink>
+        </BreadcrumbItem>
+        <BreadcrumbSeparator />
+        <BreadcrumbItem>
+          {trail.length === 0 ? (
+            <BreadcrumbPage>Products</BreadcrumbPage>
+          ) : (
+            <BreadcrumbLink asChild>
+              <Link to="/products">Products</Link>
+            </BreadcrumbLink>
+          )}
+        </BreadcrumbItem>
+
+        {trail.map((category, index) => (
+          <Fragment key={category.id}>
+            <BreadcrumbSeparator />
+            <BreadcrumbItem>
+              {index === trail.length - 1 ? (
+                <BreadcrumbPage>{category.name}</BreadcrumbPage>
+              ) : (
+                <BreadcrumbLink asChild>
+                  <Link to={`/products/category/${category.slug}`}>{category.name}</Link>
+                </BreadcrumbLink>
+              )}
+            </BreadcrumbItem>
+          </Fragment>
+        ))}
+      </BreadcrumbList>
+    </Breadcrumb>
+  );
+};
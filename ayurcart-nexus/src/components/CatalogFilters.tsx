@@ -0,0 +1,182 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CatalogFilters as Filters, SORT_OPTIONS, CatalogSort } from "@/hooks/use-catalog-filters";
+import { Category, flattenCategoryTree } from "@/lib/categories";
+import { ALLERGENS, ALLERGEN_LABELS, type Ingredient } from "@/lib/ingredients";
+
+const ALL_CATEGORIES = "all";
+const ANY_INGREDIENT = "any";
+
+interface CatalogFiltersProps {
+  filters: Filters;
+  priceCeiling: number;
+  categories: Category[];
+  ingredients: Ingredient[];
+  categorySlug?: string;
+  hasActiveFilters: boolean;
+  onChange: (patch: Partial<Filters>) => void;
+  onCategoryChange: (slug: string | null) => void;
+  onClear: () => void;
+}
+
+export const CatalogFilters = ({
+  filters,
+  priceCeiling,
+  categories,
+  ingredients,
+  categorySlug,
+  hasActiveFilters,
+  onChange,
+  onCategoryChange,
+  onClear,
+}: CatalogFiltersProps) => {
+  const [priceRange, setPriceRange] = useState([0, priceCeiling]);
+
+  // Follow the URL when it changes from outside (clear, back button, shared link)
+  useEffect(() => {
+    setPriceRange([filters.minPrice ?? 0, filters.maxPrice ?? priceCeiling]);
+  }, [filters.minPrice, filters.maxPrice, priceCeiling]);
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="text-lg">Filter & Sort</CardTitle>
+        {hasActiveFilters && (
+          <Button variant="ghost" size="sm" onClick={onClear}>
+            Clear
+          </Button>
+        )}
+      </CardHeader>
+
+      <CardContent className="space-y-6">
+        <div className="space-y-2">
+          <Label>Sort by</Label>
+          <Select
+            value={filters.sort}
+            onValueChange={(value) => onChange({ sort: value as CatalogSort })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {SORT_OPTIONS.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {categories.length > 0 && (
+          <div className="space-y-2">
+            <Label>Category</Label>
+            <Select
+              value={categorySlug || ALL_CATEGORIES}
+              onValueChange={(value) => onCategoryChange(value === ALL_CATEGORIES ? null : value)}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_CATEGORIES}>All categories</SelectItem>
+                {flattenCategoryTree(categories).map(({ category, depth }) => (
+                  <SelectItem key={category.id} value={category.slug}>
+                    {"— ".repeat(depth)}
+                    {category.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        {priceCeiling > 0 && (
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <Label>Price</Label>
+              <span className="text-sm text-muted-foreground">
+                ${priceRange[0]} – ${priceRange[1]}
+              </span>
+            </div>
+            <Slider
+              min={0}
+              max={priceCeiling}
+              step={1}
+              minStepsBetweenThumbs={1}
+              value={priceRange}
+              onValueChange={setPriceRange}
+              onValueCommit={([min, max]) =>
+                onChange({
+                  minPrice: min > 0 ? min : null,
+                  maxPrice: max < priceCeiling ? max : null,
+                })
+              }
+            />
+          </div>
+        )}
+
+        <div className="flex items-center justify-between">
+          <Label htmlFor="in-stock">In stock only</Label>
+          <Switch
+            id="in-stock"
+            checked={filters.inStock}
+            onCheckedChange={(checked) => onChange({ inStock: checked })}
+          />
+        </div>
+
+        {ingredients.length > 0 && (
+          <div className="space-y-2">
+            <Label>Contains ingredient</Label>
+            <Select
+              value={filters.ingredient || ANY_INGREDIENT}
+              onValueChange={(value) => onChange({ ingredient: value === ANY_INGREDIENT ? "" : value })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY_INGREDIENT}>Any ingredient</SelectItem>
+                {ingredients.map((ingredient) => (
+                  <SelectItem key={ingredient.id} value={ingredient.slug}>
+                    {ingredient.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        <div className="space-y-3">
+          <Label>Free from</Label>
+          <div className="grid grid-cols-2 gap-2">
+            {ALLERGENS.map((allergen) => (
+              <div key={allergen} className="flex items-center space-x-2">
+                <Checkbox
+                  id={`allergen-${allergen}`}
+                  checked={filters.excludeAllergens.includes(allergen)}
+                  onCheckedChange={(checked) =>
+                    onChange({
+                      excludeAllergens: checked
+                        ? [...filters.excludeAllergens, allergen]
+                        : filters.excludeAllergens.filter((a) => a !== allergen),
+                    })
+                  }
+                />
+                <Label htmlFor={`allergen-${allergen}`} className="font-normal cursor-pointer">
+                  {ALLERGEN_LABELS[allergen]}
+                </Label>
+              </div>
+            ))}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
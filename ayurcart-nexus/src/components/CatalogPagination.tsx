@@ -0,0 +1,78 @@
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from "@/components/ui/pagination";
+
+interface CatalogPaginationProps {
+  page: number;
+  pageCount: number;
+  pageUrl: (page: number) => string;
+  onPageChange: (page: number) => void;
+}
+
+// First, last and the pages either side of the current one; null marks a gap
+const visiblePages = (page: number, pageCount: number) => {
+  const pages: (number | null)[] = [];
+
+  for (let p = 1; p <= pageCount; p++) {
+    if (p === 1 || p === pageCount || Math.abs(p - page) <= 1) {
+      pages.push(p);
+    } else if (pages[pages.length - 1] !== null) {
+      pages.push(null);
+    }
+  }
+
+  return pages;
+};
+
+export const CatalogPagination = ({ page, pageCount, pageUrl, onPageChange }: CatalogPaginationProps) => {
+  if (pageCount <= 1) return null;
+
+  const go = (target: number) => (e: React.MouseEvent) => {
+    e.preventDefault();
+    if (target >= 1 && target <= pageCount && target !== page) onPageChange(target);
+  };
+
+  return (
+    <Pagination className="mt-8">
+      <PaginationContent>
+        <PaginationItem>
+          <PaginationPrevious
+            href={pageUrl(Math.max(1, page - 1))}
+            onClick={go(page - 1)}
+            aria-disabled={page === 1}
+            className={page === 1 ? "pointer-events-none opacity-50" : undefined}
+          />
+        </PaginationItem>
+
+        {visiblePages(page, pageCount).map((p, index) =>
+          p === null ? (
+            <PaginationItem key={`gap-${index}`}>
+              <PaginationEllipsis />
+            </PaginationItem>
+          ) : (
+            <PaginationItem key={p}>
+              <PaginationLink href={pageUrl(p)} isActive={p === page} onClick={go(p)}>
+                {p}
+              </PaginationLink>
+            </PaginationItem>
+          )
+        )}
+
+        <PaginationItem>
+          <PaginationNext
+            href={pageUrl(Math.min(pageCount, page + 1))}
+            onClick={go(page + 1)}
+            aria-disabled={page === pageCount}
+            className={page === pageCount ? "pointer-events-none opacity-50" : undefined}
+          />
+        </PaginationItem>
+      </PaginationContent>
+    </Pagination>
+  );
+};
@@ -0,0 +1,116 @@
+import { useQuery } from "@tanstack/react-query";
+import { useNavigate } from "react-router-dom";
+import { supabase } from "@/lib/supabase";
+import { useProfile } from "@/hooks/use-profile";
+import { DOSHA_INFO, type Dosha } from "@/lib/dosha";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { ResponsiveImage } from "@/components/ResponsiveImage";
+import { cn } from "@/lib/utils";
+import { Leaf, Sparkles } from "lucide-react";
+
+interface DoshaRecommendationsProps {
+  // Defaults to the signed-in customer's saved dosha
+  dosha?: Dosha | null;
+  limit?: number;
+  // Invite customers without a dosha to take the quiz instead of rendering nothing
+  showQuizPrompt?: boolean;
+  className?: string;
+}
+
+export const DoshaRecommendations = ({
+  dosha: doshaProp,
+  limit = 4,
+  showQuizPrompt = true,
+  className,
+}: DoshaRecommendationsProps) => {
+  const navigate = useNavigate();
+  const { data: profile, isLoading: profileLoading } = useProfile();
+  const dosha = doshaProp ?? profile?.dosha ?? null;
+
+  const { data: products } = useQuery({
+    queryKey: ["dosha-recommendations", dosha, limit],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("products")
+        .select("id, slug, name, price, image_url")
+        .eq("is_active", true)
+        .contains("doshas", [dosha])
+        .gt("stock_count", 0)
+        .order("sold_count", { ascending: false })
+        .limit(limit);
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!dosha,
+  });
+
+  if (!dosha) {
+    if (!showQuizPrompt || (doshaProp === undefined && profileLoading)) return null;
+
+    return (
+      <Card className={cn("bg-gradient-to-br from-primary/10 to-accent/10 border-none", className)}>
+        <CardContent className="flex flex-col items-center gap-4 p-8 text-center md:flex-row md:text-left">
+          <Sparkles className="h-10 w-10 text-primary flex-shrink-0" />
+          <div className="flex-1">
+            <h3 className="text-xl font-semibold">Discover your dosha</h3>
+            <p className="text-muted-foreground">
+              Take our two-minute quiz to find products suited to your constitution.
+            </p>
+          </div>
+          <Button onClick={() => navigate("/dosha-quiz")}>Take the Quiz</Button>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (!products || products.length === 0) return null;
+
+  return (
+    <section className={className}>
+      <div className="flex items-end justify-between mb-6">
+        <div>
+          <h2 className="text-2xl font-bold">Recommended for your dosha</h2>
+          <p className="text-muted-foreground">
+            Suited to {DOSHA_INFO[dosha].label} ({DOSHA_INFO[dosha].elements})
+          </p>
+        </div>
+        {doshaProp === undefined && (
+          <Button variant="link" onClick={() => navigate("/dosha-quiz")}>
+            Retake quiz
+          </Button>
+        )}
+      </div>
+
+      <div className="grid gap-6 grid-cols-2 lg:grid-cols-4">
+        {products.map((product) => (
+          <Card
+            key={product.id}
+            className="overflow-hidden hover:shadow-[var(--shadow-card)] transition-shadow cursor-pointer"
+            onClick={() => navigate(`/products/${product.slug}`)}
+          >
+            <div className="h-36 bg-gradient-to-br from-primary/10 to-accent/10 flex items-center justify-center">
+              {product.image_url ? (
+                <ResponsiveImage
+                  src={product.image_url}
+                  sizes="(min-width: 1024px) 25vw, 50vw"
+                  alt={product.name}
+                  className="w-full h-full object-cover"
+                />
+              ) : (
+                <Leaf className="h-12 w-12 text-primary" />
+              )}
+            </div>
+            <CardHeader className="p-4 pb-2">
+              <CardTitle className="text-base line-clamp-1">{product.name}</CardTitle>
+            </CardHeader>
+            <CardContent className="p-4 pt-0">
+              <span className="font-bold text-primary">${product.price}</span>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+    </section>
+  );
+};
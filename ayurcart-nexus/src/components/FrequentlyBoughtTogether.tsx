@@ -0,0 +1,103 @@
+import { useState } from "react";
+import { useCart } from "@/hooks/use-cart";
+import { useFrequentlyBoughtTogether } from "@/hooks/use-frequently-bought-together";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { ResponsiveImage } from "@/components/ResponsiveImage";
+import { Leaf, Loader2, Plus, ShoppingCart } from "lucide-react";
+
+interface BundleProduct {
+  id: string;
+  name: string;
+  price: number;
+  image_url: string | null;
+}
+
+interface FrequentlyBoughtTogetherProps {
+  product: BundleProduct;
+  // The size currently selected on the product page, if it has sizes
+  variantId: string | null;
+  available: boolean;
+}
+
+export const FrequentlyBoughtTogether = ({ product, variantId, available }: FrequentlyBoughtTogetherProps) => {
+  const { add, adding } = useCart();
+  const [excludedIds, setExcludedIds] = useState<string[]>([]);
+
+  const { data: related } = useFrequentlyBoughtTogether([product.id], 4);
+
+  // Products sold in sizes need a size picked on their own page, so leave them out of the bundle
+  const companions = (related ?? []).filter((p) => p.product_variants.length === 0).slice(0, 2);
+
+  if (companions.length === 0) return null;
+
+  const isIncluded = (id: string) => !excludedIds.includes(id) && (id !== product.id || available);
+  const bundle = [product, ...companions].filter((p) => isIncluded(p.id));
+  const total = bundle.reduce((sum, p) => sum + p.price, 0);
+
+  const addAll = () =>
+    add(
+      bundle.map((p) => ({
+        product_id: p.id,
+        variant_id: p.id === product.id ? variantId : null,
+        quantity: 1,
+      }))
+    );
+
+  return (
+    <section className="mt-16">
+      <h2 className="text-3xl font-bold mb-6">Frequently Bought Together</h2>
+      <Card>
+        <CardContent className="flex flex-col gap-6 p-6 lg:flex-row lg:items-center">
+          <div className="flex flex-1 flex-wrap items-center gap-4">
+            {[product, ...companions].map((p, index) => (
+              <div key={p.id} className="flex items-center gap-4">
+                {index > 0 && <Plus className="h-5 w-5 text-muted-foreground" />}
+                <label className="flex w-36 cursor-pointer flex-col gap-2">
+                  <div className="relative h-32 w-36 overflow-hidden rounded-md bg-gradient-to-br from-primary/10 to-accent/10 flex items-center justify-center">
+                    {p.image_url ? (
+                      <ResponsiveImage
+                        src={p.image_url}
+                        sizes="144px"
+                        alt={p.name}
+                        className="h-full w-full object-cover"
+                      />
+                    ) : (
+                      <Leaf className="h-10 w-10 text-primary" />
+                    )}
+                    <Checkbox
+                      className="absolute left-2 top-2 bg-background"
+                      checked={isIncluded(p.id)}
+                      disabled={p.id === product.id && !available}
+                      onCheckedChange={(checked) =>
+                        setExcludedIds(
+                          checked ? excludedIds.filter((id) => id !== p.id) : [...excludedIds, p.id]
+                        )
+                      }
+                    />
+                  </div>
+                  <span className="text-sm font-medium line-clamp-2">
+                    {p.id === product.id ? "This item: " : ""}
+                    {p.name}
+                  </span>
+                  <span className="text-sm font-semibold text-primary">${p.price}</span>
+                </label>
+              </div>
+            ))}
+          </div>
+
+          <div className="space-y-3 lg:w-56">
+            <p className="text-lg">
+              Total: <span className="font-bold text-primary">${total.toFixed(2)}</span>
+            </p>
+            <Button className="w-full" onClick={addAll} disabled={bundle.length === 0 || adding}>
+              {adding ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <ShoppingCart className="mr-2 h-4 w-4" />}
+              Add {bundle.length === 1 ? "to cart" : `all ${bundle.length} to cart`}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </section>
+  );
+};
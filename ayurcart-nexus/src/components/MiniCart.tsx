@@ -0,0 +1,200 @@
+import { useLocation, useNavigate } from "react-router-dom";
+import { useAuth } from "@/contexts/AuthContext";
+import { cartLinePrice, useCart } from "@/hooks/use-cart";
+import { useFreeShippingThreshold } from "@/hooks/use-free-shipping";
+import { useMiniCart } from "@/hooks/use-mini-cart";
+import { useAvailableStock, useAvailableVariantStock } from "@/hooks/use-available-stock";
+import { ResponsiveImage } from "@/components/ResponsiveImage";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { Sheet, SheetContent, SheetHeader, SheetTitle, SheetTrigger } from "@/components/ui/sheet";
+import { Minus, Plus, ShoppingBag, ShoppingCart, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+
+// The cart and checkout pages already show the whole cart
+const CART_PAGES = ["/cart", "/checkout"];
+
+export const MiniCart = () => {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const { pathname } = useLocation();
+  const { open, setOpen, keepOpen } = useMiniCart();
+  const { items, count, subtotal, updateQuantity, remove } = useCart();
+  const onCartPage = CART_PAGES.includes(pathname);
+
+  const { data: freeShippingThreshold } = useFreeShippingThreshold();
+
+  const { data: availableStock } = useAvailableStock(open ? items.map((item) => item.product_id) : []);
+  const { data: availableVariantStock } = useAvailableVariantStock(
+    open ? items.flatMap((item) => (item.variant_id ? [item.variant_id] : [])) : []
+  );
+
+  const goTo = (path: string) => {
+    setOpen(false);
+    navigate(path);
+  };
+
+  // Same as the cart page: guests sign in first and come back to the cart
+  const checkout = () => {
+    if (user) {
+      goTo("/checkout");
+    } else {
+      toast.info("Sign in to check out. Your cart will be kept.");
+      setOpen(false);
+      navigate("/auth", { state: { from: "/cart" } });
+    }
+  };
+
+  const toFreeShipping = Math.max(0, (freeShippingThreshold ?? 0) - subtotal);
+
+  return (
+    <Sheet open={open && !onCartPage} onOpenChange={setOpen}>
+      <SheetTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="relative"
+          aria-label="Cart"
+          onClick={(e) => {
+            if (!onCartPage) return;
+            e.preventDefault();
+            navigate("/cart");
+          }}
+        >
+          <ShoppingCart className="h-5 w-5" />
+          {count > 0 && (
+            <Badge className="absolute -right-2 -top-2 h-5 w-5 rounded-full p-0 flex items-center justify-center">
+              {count}
+            </Badge>
+          )}
+        </Button>
+      </SheetTrigger>
+
+      <SheetContent className="flex w-full flex-col sm:max-w-md" onPointerDown={keepOpen} onPointerEnter={keepOpen}>
+        <SheetHeader>
+          <SheetTitle>Your Cart ({count})</SheetTitle>
+        </SheetHeader>
+
+        {items.length === 0 ? (
+          <div className="flex flex-1 flex-col items-center justify-center text-center">
+            <ShoppingBag className="h-12 w-12 text-muted-foreground mb-4" />
+            <p className="text-muted-foreground mb-4">Your cart is empty</p>
+            <Button onClick={() => goTo("/products")}>Browse Products</Button>
+          </div>
+        ) : (
+          <>
+            <div className="flex-1 overflow-y-auto -mx-6 px-6 divide-y">
+              {items.map((item) => {
+                const available = item.variant_id
+                  ? availableVariantStock?.[item.variant_id] ?? item.product_variants?.stock_count ?? 0
+                  : availableStock?.[item.product_id] ?? item.products?.stock_count ?? 0;
+
+                return (
+                  <div key={item.id} className="flex gap-3 py-4">
+                    <div className="h-16 w-16 flex-shrink-0 overflow-hidden rounded bg-gradient-to-br from-primary/10 to-accent/10 flex items-center justify-center">
+                      {item.products?.image_url ? (
+                        <ResponsiveImage
+                          src={item.products.image_url}
+                          sizes="64px"
+                          alt={item.products.name}
+                          className="h-full w-full object-cover"
+                        />
+                      ) : (
+                        <ShoppingBag className="h-6 w-6 text-primary" />
+                      )}
+                    </div>
+
+                    <div className="flex-1 min-w-0">
+                      <button
+                        type="button"
+                        className="block text-left font-medium line-clamp-1 hover:text-primary"
+                        onClick={() => item.products && goTo(`/products/${item.products.slug}`)}
+                      >
+                        {item.products?.name}
+                      </button>
+                      {item.product_variants && (
+                        <p className="text-sm text-muted-foreground">{item.product_variants.name}</p>
+                      )}
+
+                      <div className="mt-2 flex items-center gap-2">
+                        <Button
+                          size="icon"
+                          variant="outline"
+                          className="h-7 w-7"
+                          aria-label="Decrease quantity"
+                          onClick={() => updateQuantity({ id: item.id, quantity: item.quantity - 1 })}
+                          disabled={item.quantity <= 1}
+                        >
+                          <Minus className="h-3 w-3" />
+                        </Button>
+                        <span className="w-6 text-center text-sm font-medium">{item.quantity}</span>
+                        <Button
+                          size="icon"
+                          variant="outline"
+                          className="h-7 w-7"
+                          aria-label="Increase quantity"
+                          onClick={() => updateQuantity({ id: item.id, quantity: item.quantity + 1 })}
+                          disabled={item.quantity >= available}
+                        >
+                          <Plus className="h-3 w-3" />
+                        </Button>
+                        <span className="ml-auto font-semibold text-primary">
+                          ${(cartLinePrice(item) * item.quantity).toFixed(2)}
+                        </span>
+                      </div>
+                      {item.quantity > available && (
+                        <p className="text-xs text-destructive mt-1">
+                          {available > 0 ? `Only ${available} available` : "Currently out of stock"}
+                        </p>
+                      )}
+                    </div>
+
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      className="h-7 w-7 text-destructive hover:text-destructive"
+                      aria-label="Remove"
+                      onClick={() => remove(item.id)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                );
+              })}
+            </div>
+
+            <div className="space-y-4 border-t pt-4">
+              {!!freeShippingThreshold && (
+                <div className="space-y-2">
+                  <p className="text-sm">
+                    {toFreeShipping > 0 ? (
+                      <>
+                        Add <span className="font-semibold">${toFreeShipping.toFixed(2)}</span> more for free shipping
+                      </>
+                    ) : (
+                      "Your order ships free"
+                    )}
+                  </p>
+                  <Progress value={Math.min(100, (subtotal / freeShippingThreshold) * 100)} />
+                </div>
+              )}
+
+              <div className="flex justify-between text-lg font-bold">
+                <span>Subtotal</span>
+                <span className="text-primary">${subtotal.toFixed(2)}</span>
+              </div>
+
+              <div className="grid grid-cols-2 gap-2">
+                <Button variant="outline" onClick={() => goTo("/cart")}>
+                  View Cart
+                </Button>
+                <Button onClick={checkout}>Checkout</Button>
+              </div>
+            </div>
+          </>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+};
@@ -1,9 +1,7 @@
 import { Link, useNavigate } from "react-router-dom";
-import { ShoppingCart, User, LogOut, LayoutDashboard } from "lucide-react";
+import { User, LogOut, LayoutDashboard, Heart } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { useAuth } from "@/contexts/AuthContext";
-import { useQuery } from "@tanstack/react-query";
-import { supabase } from "@/lib/supabase";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -11,24 +9,13 @@ import {
   DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
-import { Badge } from "@/components/ui/badge";
+import { SearchCommand } from "@/components/SearchCommand";
+import { MiniCart } from "@/components/MiniCart";
 
 export const Navbar = () => {
   const { user, signOut } = useAuth();
   const navigate = useNavigate();
 
-  const { data: cartCount } = useQuery({
-    queryKey: ["cart-count", user?.id],
-    queryFn: async () => {
-      if (!user) return 0;
-      const { count } = await supabase
-        .from("cart_items")
-        .select("*", { count: "exact", head: true })
-        .eq("user_id", user.id);
-      return count || 0;
-    },
-    enabled: !!user,
-  });
 
   const handleSignOut = async () => {
     await signOut();
@@ -50,24 +37,29 @@ export const Navbar = () => {
 
 
           <div className="flex items-center gap-4">
+            <div className="hidden md:block">
+              <SearchCommand />
+            </div>
+
             <Link to="/products">
               <Button variant="ghost">Products</Button>
             </Link>
 
+            <Link to="/dosha-quiz" className="hidden lg:block">
+              <Button variant="ghost">Dosha Quiz</Button>
+            </Link>
+
              <Link to="/blog">
               <Button variant="ghost">Blog</Button>
             </Link>
 
+            <MiniCart />
+
             {user ? (
               <>
-                <Link to="/cart" className="relative">
-                  <Button variant="ghost" size="icon">
-                    <ShoppingCart className="h-5 w-5" />
-                    {cartCount! > 0 && (
-                      <Badge className="absolute -right-2 -top-2 h-5 w-5 rounded-full p-0 flex items-center justify-center">
-                        {cartCount}
-                      </Badge>
-                    )}
+                <Link to="/wishlist" className="hidden sm:block">
+                  <Button variant="ghost" size="icon" aria-label="Wishlist">
+                    <Heart className="h-5 w-5" />
                   </Button>
                 </Link>
 
@@ -82,6 +74,10 @@ export const Navbar = () => {
                       <LayoutDashboard className="mr-2 h-4 w-4" />
                       Dashboard
                     </DropdownMenuItem>
+                    <DropdownMenuItem onClick={() => navigate("/wishlist")}>
+                      <Heart className="mr-2 h-4 w-4" />
+                      Wishlist
+                    </DropdownMenuItem>
                     <DropdownMenuItem onClick={() => navigate("/admin")}>
                       <LayoutDashboard className="mr-2 h-4 w-4" />
                       Admin Panel
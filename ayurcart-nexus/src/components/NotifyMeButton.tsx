@@ -0,0 +1,34 @@
+import { Bell, BellRing } from "lucide-react";
+import { Button, type ButtonProps } from "@/components/ui/button";
+import { useStockSubscriptions } from "@/hooks/use-stock-subscriptions";
+
+interface NotifyMeButtonProps {
+  productId: string;
+  // Subscribe to a single size rather than the whole product
+  variantId?: string | null;
+  size?: ButtonProps["size"];
+  className?: string;
+}
+
+export const NotifyMeButton = ({ productId, variantId = null, size, className }: NotifyMeButtonProps) => {
+  const { isSubscribed, toggle, isPending } = useStockSubscriptions();
+  const subscribed = isSubscribed(productId, variantId);
+  const Icon = subscribed ? BellRing : Bell;
+
+  return (
+    <Button
+      type="button"
+      variant={subscribed ? "secondary" : "outline"}
+      size={size}
+      className={className}
+      disabled={isPending}
+      onClick={(e) => {
+        e.stopPropagation(); // cards navigate to the product on click
+        toggle(productId, variantId);
+      }}
+    >
+      <Icon className={size === "lg" ? "mr-2 h-5 w-5" : "mr-2 h-4 w-4"} />
+      {subscribed ? "We'll notify you" : "Notify me"}
+    </Button>
+  );
+};
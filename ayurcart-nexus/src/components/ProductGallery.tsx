@@ -0,0 +1,145 @@
+import { useEffect, useState } from "react";
+import {
+  Carousel,
+  CarouselApi,
+  CarouselContent,
+  CarouselItem,
+  CarouselNext,
+  CarouselPrevious,
+} from "@/components/ui/carousel";
+import { Dialog, DialogContent, DialogTitle } from "@/components/ui/dialog";
+import { ResponsiveImage } from "@/components/ResponsiveImage";
+import { cn } from "@/lib/utils";
+import { Leaf, ZoomIn } from "lucide-react";
+
+interface GalleryImage {
+  id: string;
+  url: string;
+  alt_text: string | null;
+}
+
+interface ProductGalleryProps {
+  images: GalleryImage[];
+  productName: string;
+}
+
+export const ProductGallery = ({ images, productName }: ProductGalleryProps) => {
+  const [api, setApi] = useState<CarouselApi>();
+  const [selected, setSelected] = useState(0);
+  const [zoomOpen, setZoomOpen] = useState(false);
+  const [zoomed, setZoomed] = useState(false);
+  const [origin, setOrigin] = useState("50% 50%");
+
+  useEffect(() => {
+    if (!api) return;
+
+    const onSelect = () => setSelected(api.selectedScrollSnap());
+    onSelect();
+    api.on("select", onSelect);
+
+    return () => {
+      api.off("select", onSelect);
+    };
+  }, [api]);
+
+  // Zoom in towards wherever the pointer is over the image
+  const followPointer = (e: React.MouseEvent<HTMLImageElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const x = ((e.clientX - rect.left) / rect.width) * 100;
+    const y = ((e.clientY - rect.top) / rect.height) * 100;
+    setOrigin(`${x}% ${y}%`);
+  };
+
+  if (images.length === 0) {
+    return (
+      <div className="rounded-lg overflow-hidden bg-gradient-to-br from-primary/10 to-accent/10 aspect-square flex items-center justify-center">
+        <Leaf className="h-32 w-32 text-primary" />
+      </div>
+    );
+  }
+
+  const current = images[selected] ?? images[0];
+
+  return (
+    <div className="space-y-4">
+      <Carousel setApi={setApi} className="rounded-lg overflow-hidden">
+        <CarouselContent className="ml-0">
+          {images.map((image) => (
+            <CarouselItem key={image.id} className="pl-0">
+              <button
+                type="button"
+                className="group relative block w-full aspect-square bg-gradient-to-br from-primary/10 to-accent/10 cursor-zoom-in"
+                onClick={() => setZoomOpen(true)}
+              >
+                <ResponsiveImage
+                  src={image.url}
+                  sizes="(min-width: 768px) 50vw, 100vw"
+                  alt={image.alt_text || productName}
+                  className="w-full h-full object-cover"
+                />
+                <ZoomIn className="absolute right-3 bottom-3 h-6 w-6 text-white opacity-0 drop-shadow transition-opacity group-hover:opacity-100" />
+              </button>
+            </CarouselItem>
+          ))}
+        </CarouselContent>
+        {images.length > 1 && (
+          <>
+            <CarouselPrevious className="left-3" />
+            <CarouselNext className="right-3" />
+          </>
+        )}
+      </Carousel>
+
+      {images.length > 1 && (
+        <div className="flex gap-2 overflow-x-auto">
+          {images.map((image, index) => (
+            <button
+              key={image.id}
+              type="button"
+              onClick={() => api?.scrollTo(index)}
+              className={cn(
+                "h-20 w-20 flex-shrink-0 overflow-hidden rounded-md border-2 transition-colors",
+                index === selected ? "border-primary" : "border-transparent opacity-70 hover:opacity-100"
+              )}
+            >
+              <ResponsiveImage
+                src={image.url}
+                sizes="80px"
+                alt={image.alt_text || productName}
+                className="h-full w-full object-cover"
+              />
+            </button>
+          ))}
+        </div>
+      )}
+
+      <Dialog
+        open={zoomOpen}
+        onOpenChange={(open) => {
+          setZoomOpen(open);
+          setZoomed(false);
+        }}
+      >
+        <DialogContent className="max-w-4xl p-2">
+          <DialogTitle className="sr-only">{current.alt_text || productName}</DialogTitle>
+          <div className="overflow-hidden rounded-md">
+            <img
+              src={current.url}
+              alt={current.alt_text || productName}
+              onClick={(e) => {
+                followPointer(e);
+                setZoomed(!zoomed);
+              }}
+              onMouseMove={(e) => zoomed && followPointer(e)}
+              style={{ transformOrigin: origin }}
+              className={cn(
+                "max-h-[80vh] w-full object-contain transition-transform duration-200",
+                zoomed ? "scale-[2.5] cursor-zoom-out" : "cursor-zoom-in"
+              )}
+            />
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
@@ -0,0 +1,366 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/lib/supabase";
+import { useAuth } from "@/contexts/AuthContext";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { StarRating, StarRatingInput } from "@/components/StarRating";
+import { BadgeCheck, Loader2, X } from "lucide-react";
+import { toast } from "sonner";
+import type { Tables } from "@/integrations/supabase/types";
+
+type Review = Tables<"product_reviews">;
+type ReviewSort = "newest" | "highest" | "lowest";
+
+const MAX_PHOTOS = 4;
+
+const SORTERS: Record<ReviewSort, (a: Review, b: Review) => number> = {
+  newest: (a, b) => (b.created_at ?? "").localeCompare(a.created_at ?? ""),
+  highest: (a, b) => b.rating - a.rating,
+  lowest: (a, b) => a.rating - b.rating,
+};
+
+interface ProductReviewsProps {
+  productId: string;
+}
+
+export const ProductReviews = ({ productId }: ProductReviewsProps) => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const [sort, setSort] = useState<ReviewSort>("newest");
+  const [starFilter, setStarFilter] = useState<number | null>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [uploading, setUploading] = useState(false);
+  const [formData, setFormData] = useState({
+    rating: 0,
+    title: "",
+    body: "",
+    photo_urls: [] as string[],
+  });
+
+  const { data: reviews, isLoading } = useQuery({
+    queryKey: ["product-reviews", productId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("product_reviews")
+        .select("*")
+        .eq("product_id", productId)
+        .order("created_at", { ascending: false });
+
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  // Only customers who have received the product can review it
+  const { data: canReview } = useQuery({
+    queryKey: ["can-review", productId, user?.id],
+    queryFn: async () => {
+      if (!user) return false;
+      const { data, error } = await supabase.rpc("has_purchased", {
+        _product_id: productId,
+      });
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!user,
+  });
+
+  const ownReview = reviews?.find((review) => review.user_id === user?.id);
+
+  // RLS also returns the shopper's own (and, for staff, everyone's) unmoderated reviews
+  const approved = reviews?.filter((review) => review.status === "approved") ?? [];
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      if (!user) throw new Error("Please sign in to write a review");
+
+      const { error } = await supabase.from("product_reviews").upsert(
+        {
+          product_id: productId,
+          user_id: user.id,
+          rating: formData.rating,
+          title: formData.title.trim() || null,
+          body: formData.body.trim() || null,
+          photo_urls: formData.photo_urls,
+        },
+        { onConflict: "product_id,user_id" }
+      );
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["product-reviews", productId] });
+      queryClient.invalidateQueries({ queryKey: ["product"] });
+      toast.success("Thanks! Your review will appear once it has been approved.");
+      setDialogOpen(false);
+    },
+    onError: (err: Error) => {
+      toast.error(err?.message || "Failed to save review");
+    },
+  });
+
+  const openDialog = () => {
+    setFormData({
+      rating: ownReview?.rating ?? 0,
+      title: ownReview?.title ?? "",
+      body: ownReview?.body ?? "",
+      photo_urls: ownReview?.photo_urls ?? [],
+    });
+    setDialogOpen(true);
+  };
+
+  // Photos live under the reviewer's own folder, which storage policies require
+  const uploadPhotos = async (files: FileList) => {
+    if (!user) return;
+    setUploading(true);
+    const urls: string[] = [];
+
+    for (const file of Array.from(files).slice(0, MAX_PHOTOS - formData.photo_urls.length)) {
+      const fileExt = file.name.split(".").pop();
+      const filePath = `${user.id}/${productId}-${Date.now()}-${urls.length}.${fileExt}`;
+
+      const { error } = await supabase.storage.from("review-photos").upload(filePath, file);
+      if (error) {
+        toast.error(`Failed to upload ${file.name}`);
+        continue;
+      }
+
+      const { data } = supabase.storage.from("review-photos").getPublicUrl(filePath);
+      urls.push(data.publicUrl);
+    }
+
+    setFormData((current) => ({ ...current, photo_urls: [...current.photo_urls, ...urls] }));
+    setUploading(false);
+  };
+
+  const total = approved.length;
+  const average = total > 0 ? approved.reduce((sum, r) => sum + r.rating, 0) / total : 0;
+  const countFor = (star: number) => approved.filter((r) => r.rating === star).length;
+
+  const visibleReviews = (reviews ?? [])
+    .filter((review) => review.status === "approved" || review.id === ownReview?.id)
+    .filter((review) => starFilter === null || review.rating === starFilter)
+    .sort(SORTERS[sort]);
+
+  return (
+    <section className="mt-16">
+      <h2 className="text-3xl font-bold mb-6">Customer Reviews</h2>
+
+      <div className="grid gap-8 md:grid-cols-3">
+        <div className="space-y-4">
+          <div className="flex items-center gap-3">
+            <span className="text-4xl font-bold">{average.toFixed(1)}</span>
+            <div>
+              <StarRating rating={average} />
+              <p className="text-sm text-muted-foreground">
+                {total} {total === 1 ? "review" : "reviews"}
+              </p>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            {[5, 4, 3, 2, 1].map((star) => (
+              <button
+                key={star}
+                type="button"
+                onClick={() => setStarFilter(starFilter === star ? null : star)}
+                className={`flex w-full items-center gap-2 rounded px-1 text-sm hover:bg-muted ${
+                  starFilter === star ? "bg-muted font-medium" : ""
+                }`}
+              >
+                <span className="w-12 text-left">{star} star</span>
+                <Progress value={total > 0 ? (countFor(star) / total) * 100 : 0} className="h-2 flex-1" />
+                <span className="w-8 text-right text-muted-foreground">{countFor(star)}</span>
+              </button>
+            ))}
+          </div>
+
+          {canReview && (
+            <Button className="w-full" onClick={openDialog}>
+              {ownReview ? "Edit your review" : "Write a review"}
+            </Button>
+          )}
+        </div>
+
+        <div className="md:col-span-2 space-y-4">
+          <div className="flex items-center justify-between gap-4">
+            <p className="text-sm text-muted-foreground">
+              {starFilter !== null && (
+                <>
+                  Showing {starFilter}-star reviews{" "}
+                  <Button variant="link" size="sm" className="h-auto p-0" onClick={() => setStarFilter(null)}>
+                    Show all
+                  </Button>
+                </>
+              )}
+            </p>
+            <Select value={sort} onValueChange={(value) => setSort(value as ReviewSort)}>
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="newest">Newest</SelectItem>
+                <SelectItem value="highest">Highest rated</SelectItem>
+                <SelectItem value="lowest">Lowest rated</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {isLoading ? (
+            <p className="text-muted-foreground">Loading reviews...</p>
+          ) : visibleReviews.length === 0 ? (
+            <p className="text-muted-foreground">
+              {total === 0 ? "No reviews yet." : "No reviews match this filter."}
+            </p>
+          ) : (
+            visibleReviews.map((review) => (
+              <Card key={review.id}>
+                <CardContent className="p-6 space-y-2">
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="flex items-center gap-2">
+                      <StarRating rating={review.rating} />
+                      {review.status !== "approved" && (
+                        <Badge variant="outline">
+                          {review.status === "rejected" ? "Not published" : "Awaiting approval"}
+                        </Badge>
+                      )}
+                    </div>
+                    <span className="text-sm text-muted-foreground">
+                      {review.created_at && new Date(review.created_at).toLocaleDateString()}
+                    </span>
+                  </div>
+                  {review.title && <h3 className="font-semibold">{review.title}</h3>}
+                  {review.body && (
+                    <p className="text-muted-foreground whitespace-pre-line">{review.body}</p>
+                  )}
+                  {review.photo_urls.length > 0 && (
+                    <div className="flex gap-2">
+                      {review.photo_urls.map((url) => (
+                        <a key={url} href={url} target="_blank" rel="noreferrer">
+                          <img src={url} alt="Review photo" className="h-20 w-20 rounded object-cover" />
+                        </a>
+                      ))}
+                    </div>
+                  )}
+                  <div className="flex items-center gap-2 text-sm">
+                    <span className="font-medium">{review.reviewer_name}</span>
+                    {review.verified_purchase && (
+                      <Badge variant="secondary">
+                        <BadgeCheck className="mr-1 h-3 w-3" />
+                        Verified purchase
+                      </Badge>
+                    )}
+                  </div>
+                  {review.admin_reply && (
+                    <div className="mt-2 rounded-md border-l-4 border-primary bg-muted/50 p-3 text-sm">
+                      <p className="font-medium mb-1">Response from Aagna Naturals</p>
+                      <p className="text-muted-foreground whitespace-pre-line">{review.admin_reply}</p>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            ))
+          )}
+        </div>
+      </div>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{ownReview ? "Edit your review" : "Write a review"}</DialogTitle>
+          </DialogHeader>
+
+          <form
+            className="space-y-4"
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (formData.rating === 0) {
+                toast.error("Please choose a star rating");
+                return;
+              }
+              saveMutation.mutate();
+            }}
+          >
+            <div>
+              <Label>Rating *</Label>
+              <StarRatingInput
+                value={formData.rating}
+                onChange={(rating) => setFormData({ ...formData, rating })}
+              />
+            </div>
+
+            <div>
+              <Label>Title</Label>
+              <Input
+                value={formData.title}
+                onChange={(e) => setFormData({ ...formData, title: e.target.value })}
+              />
+            </div>
+
+            <div>
+              <Label>Review</Label>
+              <Textarea
+                rows={5}
+                value={formData.body}
+                onChange={(e) => setFormData({ ...formData, body: e.target.value })}
+              />
+            </div>
+
+            <div>
+              <Label>Photos (up to {MAX_PHOTOS})</Label>
+              {formData.photo_urls.length > 0 && (
+                <div className="my-2 flex gap-2">
+                  {formData.photo_urls.map((url) => (
+                    <div key={url} className="relative">
+                      <img src={url} alt="Review photo" className="h-16 w-16 rounded object-cover" />
+                      <button
+                        type="button"
+                        className="absolute -right-2 -top-2 rounded-full bg-destructive p-0.5 text-destructive-foreground"
+                        onClick={() =>
+                          setFormData({
+                            ...formData,
+                            photo_urls: formData.photo_urls.filter((u) => u !== url),
+                          })
+                        }
+                      >
+                        <X className="h-3 w-3" />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
+              {formData.photo_urls.length < MAX_PHOTOS && (
+                <div className="flex items-center gap-2">
+                  <Input
+                    type="file"
+                    accept="image/*"
+                    multiple
+                    disabled={uploading}
+                    onChange={async (e) => {
+                      if (e.target.files?.length) await uploadPhotos(e.target.files);
+                      e.target.value = "";
+                    }}
+                  />
+                  {uploading && <Loader2 className="h-4 w-4 animate-spin" />}
+                </div>
+              )}
+            </div>
+
+            <Button type="submit" className="w-full" disabled={saveMutation.isPending || uploading}>
+              {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {ownReview ? "Update Review" : "Submit Review"}
+            </Button>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </section>
+  );
+};
@@ -0,0 +1,17 @@
+import type { ImgHTMLAttributes } from "react";
+import { imageSrcSet } from "@/lib/images";
+
+interface ResponsiveImageProps extends ImgHTMLAttributes<HTMLImageElement> {
+  src: string;
+  // How wide the image is laid out, e.g. "(min-width: 1024px) 33vw, 100vw"
+  sizes: string;
+}
+
+// Lets the browser pick the smallest uploaded size that fills the slot; older single-size images just use src
+export const ResponsiveImage = ({ src, sizes, loading = "lazy", ...props }: ResponsiveImageProps) => {
+  const srcSet = imageSrcSet(src);
+
+  return (
+    <img src={src} srcSet={srcSet} sizes={srcSet ? sizes : undefined} loading={loading} decoding="async" {...props} />
+  );
+};
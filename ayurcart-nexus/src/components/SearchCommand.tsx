@@ -0,0 +1,114 @@
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { Leaf, Search } from "lucide-react";
+import { supabase } from "@/lib/supabase";
+import { useDebounce } from "@/hooks/use-debounce";
+import {
+  Command,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command";
+import { ResponsiveImage } from "@/components/ResponsiveImage";
+
+export const SearchCommand = () => {
+  const navigate = useNavigate();
+  const [term, setTerm] = useState("");
+  const [open, setOpen] = useState(false);
+  const debouncedTerm = useDebounce(term.trim());
+
+  const { data: suggestions, isFetching } = useQuery({
+    queryKey: ["search-suggestions", debouncedTerm],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .rpc("search_products", { search_query: debouncedTerm })
+        .select("id, slug, name, price, image_url")
+        .limit(6);
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: debouncedTerm.length >= 2,
+    staleTime: 60_000,
+  });
+
+  const close = () => {
+    setOpen(false);
+    setTerm("");
+  };
+
+  const showResults = () => {
+    if (!term.trim()) return;
+    navigate(`/search?q=${encodeURIComponent(term.trim())}`);
+    close();
+  };
+
+  return (
+    <Command
+      shouldFilter={false}
+      className="relative w-64 overflow-visible rounded-md border bg-background"
+    >
+      <CommandInput
+        value={term}
+        onValueChange={(value) => {
+          setTerm(value);
+          setOpen(true);
+        }}
+        onFocus={() => setOpen(true)}
+        onBlur={() => setOpen(false)}
+        onKeyDown={(e) => e.key === "Escape" && close()}
+        placeholder="Search herbs, oils..."
+        className="h-9"
+      />
+
+      {open && term.trim().length >= 2 && (
+        <CommandList
+          className="absolute left-0 right-0 top-full z-50 mt-1 rounded-md border bg-popover shadow-md"
+          // Keep focus in the input so clicks on a suggestion register
+          onMouseDown={(e) => e.preventDefault()}
+        >
+          <CommandItem value="__search" onSelect={showResults}>
+            <Search className="mr-2 h-4 w-4" />
+            Search for "{term.trim()}"
+          </CommandItem>
+
+          {suggestions && suggestions.length > 0 ? (
+            <CommandGroup heading="Products">
+              {suggestions.map((product) => (
+                <CommandItem
+                  key={product.id}
+                  value={product.id}
+                  onSelect={() => {
+                    navigate(`/products/${product.slug}`);
+                    close();
+                  }}
+                >
+                  {product.image_url ? (
+                    <ResponsiveImage
+                      src={product.image_url}
+                      sizes="32px"
+                      alt={product.name}
+                      className="mr-2 h-8 w-8 rounded object-cover"
+                    />
+                  ) : (
+                    <Leaf className="mr-2 h-4 w-4 text-primary" />
+                  )}
+                  <span className="flex-1 line-clamp-1">{product.name}</span>
+                  <span className="ml-2 text-muted-foreground">${product.price}</span>
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          ) : (
+            !isFetching && debouncedTerm.length >= 2 && (
+              <p className="py-4 text-center text-sm text-muted-foreground">
+                No matching products
+              </p>
+            )
+          )}
+        </CommandList>
+      )}
+    </Command>
+  );
+};
@@ -0,0 +1,56 @@
+import { Star } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+interface StarRatingProps {
+  rating: number;
+  className?: string;
+}
+
+// Read-only stars; fractional ratings fill the last star partially
+export const StarRating = ({ rating, className }: StarRatingProps) => {
+  return (
+    <div className={cn("flex items-center gap-0.5", className)} aria-label={`${rating} out of 5 stars`}>
+      {[1, 2, 3, 4, 5].map((star) => {
+        const fill = Math.min(Math.max(rating - star + 1, 0), 1) * 100;
+
+        return (
+          <span key={star} className="relative inline-block h-4 w-4">
+            <Star className="absolute inset-0 h-4 w-4 text-muted-foreground/40" />
+            <span className="absolute inset-0 overflow-hidden" style={{ width: `${fill}%` }}>
+              <Star className="h-4 w-4 fill-amber-400 text-amber-400" />
+            </span>
+          </span>
+        );
+      })}
+    </div>
+  );
+};
+
+interface StarRatingInputProps {
+  value: number;
+  onChange: (value: number) => void;
+}
+
+export const StarRatingInput = ({ value, onChange }: StarRatingInputProps) => {
+  return (
+    <div className="flex items-center gap-1" role="radiogroup" aria-label="Rating">
+      {[1, 2, 3, 4, 5].map((star) => (
+        <button
+          key={star}
+          type="button"
+          role="radio"
+          aria-checked={value === star}
+          aria-label={`${star} ${star === 1 ? "star" : "stars"}`}
+          onClick={() => onChange(star)}
+        >
+          <Star
+            className={cn(
+              "h-7 w-7 transition-colors",
+              star <= value ? "fill-amber-400 text-amber-400" : "text-muted-foreground/40"
+            )}
+          />
+        </button>
+      ))}
+    </div>
+  );
+};
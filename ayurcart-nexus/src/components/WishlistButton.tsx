@@ -0,0 +1,32 @@
+import { Heart } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useWishlist } from "@/hooks/use-wishlist";
+import { cn } from "@/lib/utils";
+
+interface WishlistButtonProps {
+  productId: string;
+  className?: string;
+}
+
+export const WishlistButton = ({ productId, className }: WishlistButtonProps) => {
+  const { isSaved, toggle, isPending } = useWishlist();
+  const saved = isSaved(productId);
+
+  return (
+    <Button
+      type="button"
+      variant="outline"
+      size="icon"
+      className={cn("rounded-full", className)}
+      aria-label={saved ? "Remove from wishlist" : "Save to wishlist"}
+      aria-pressed={saved}
+      disabled={isPending}
+      onClick={(e) => {
+        e.stopPropagation(); // cards navigate to the product on click
+        toggle(productId);
+      }}
+    >
+      <Heart className={cn("h-4 w-4", saved && "fill-destructive text-destructive")} />
+    </Button>
+  );
+};
@@ -0,0 +1,50 @@
+import { useNavigate } from "react-router-dom";
+import { useFrequentlyBoughtTogether } from "@/hooks/use-frequently-bought-together";
+import { ResponsiveImage } from "@/components/ResponsiveImage";
+import { Card, CardContent } from "@/components/ui/card";
+import { Leaf } from "lucide-react";
+
+interface YouMayAlsoLikeProps {
+  productIds: string[];
+}
+
+export const YouMayAlsoLike = ({ productIds }: YouMayAlsoLikeProps) => {
+  const navigate = useNavigate();
+  const { data: products } = useFrequentlyBoughtTogether(productIds, 6);
+
+  if (!products || products.length === 0) return null;
+
+  return (
+    <section className="mt-12">
+      <h2 className="text-2xl font-bold mb-4">You may also like</h2>
+      <div className="flex gap-4 overflow-x-auto pb-2">
+        {products.map((product) => (
+          <Card
+            key={product.id}
+            className="w-44 flex-shrink-0 overflow-hidden hover:shadow-[var(--shadow-card)] transition-shadow cursor-pointer"
+            onClick={() => navigate(`/products/${product.slug}`)}
+          >
+            <div className="h-32 bg-gradient-to-br from-primary/10 to-accent/10 flex items-center justify-center">
+              {product.image_url ? (
+                <ResponsiveImage
+                  src={product.image_url}
+                  sizes="176px"
+                  alt={product.name}
+                  className="w-full h-full object-cover"
+                />
+              ) : (
+                <Leaf className="h-10 w-10 text-primary" />
+              )}
+            </div>
+            <CardContent className="p-3">
+              <p className="text-sm font-medium line-clamp-1">{product.name}</p>
+              <p className="text-sm font-semibold text-primary">
+                {product.product_variants.length > 0 && "From "}${product.price}
+              </p>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+    </section>
+  );
+};
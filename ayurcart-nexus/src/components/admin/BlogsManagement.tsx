@@ -1,6 +1,7 @@
 import { useState } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { supabase } from "@/lib/supabase";
+import { uploadImage } from "@/lib/images";
 import { useAuth } from "@/contexts/AuthContext";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
@@ -83,29 +84,35 @@ export const BlogsManagement = () => {
     enabled: !!user,
   });
 
-  // Upload files to Supabase Storage
+  // Upload files to Supabase Storage; images are resized to WebP, video and audio go up as they are
   const uploadFiles = async (files: File[]): Promise<MediaItem[]> => {
     if (!files.length) return [];
 
     const uploaded: MediaItem[] = [];
 
     for (const file of files) {
+      const mime = file.type;
+      let type: MediaItem["type"] = "image";
+      if (mime.startsWith("video/")) type = "video";
+      else if (mime.startsWith("audio/")) type = "audio";
+
+      if (type === "image") {
+        const { url } = await uploadImage("blog-media", `${user?.id}`, file);
+        uploaded.push({ type, url });
+        continue;
+      }
+
       const ext = file.name.split(".").pop();
-      const path = `${user?.id}/${Date.now()}-${Math.random().toString(36).slice(2)}.${ext}`;
+      const path = `${user?.id}/${crypto.randomUUID()}.${ext}`;
 
       const { error: uploadError } = await supabase.storage
         .from("blog-media")
-        .upload(path, file);
+        .upload(path, file, { contentType: mime, cacheControl: "31536000" });
 
       if (uploadError) throw uploadError;
 
       const { data } = supabase.storage.from("blog-media").getPublicUrl(path);
 
-      const mime = file.type;
-      let type: MediaItem["type"] = "image";
-      if (mime.startsWith("video/")) type = "video";
-      else if (mime.startsWith("audio/")) type = "audio";
-
       uploaded.push({ type, url: data.publicUrl });
     }
 
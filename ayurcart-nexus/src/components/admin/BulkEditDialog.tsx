@@ -0,0 +1,164 @@
+import { useState } from "react";
+import { useCategories } from "@/hooks/use-categories";
+import { flattenCategoryTree } from "@/lib/categories";
+import type { CatalogProduct } from "@/lib/product-import";
+import {
+  BULK_ACTION_LABELS,
+  describeChange,
+  planBulkAction,
+  type BulkAction,
+  type BulkChange,
+} from "@/lib/bulk-edit";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+
+interface BulkEditDialogProps {
+  actionType: BulkAction["type"] | null;
+  products: CatalogProduct[];
+  applying: boolean;
+  onApply: (action: BulkAction, changes: BulkChange[]) => void;
+  onClose: () => void;
+}
+
+export const BulkEditDialog = ({ actionType, products, applying, onApply, onClose }: BulkEditDialogProps) => {
+  const { data: categories } = useCategories();
+  const categoryTree = flattenCategoryTree(categories ?? []);
+  const [priceMode, setPriceMode] = useState<"percent" | "fixed">("percent");
+  const [amount, setAmount] = useState("");
+  const [categoryId, setCategoryId] = useState("");
+
+  const number = parseFloat(amount);
+  const stock = Number(amount);
+
+  // Null until the inputs the action needs are filled in
+  const action: BulkAction | null = (() => {
+    switch (actionType) {
+      case "price":
+        if (Number.isNaN(number) || (priceMode === "percent" && number <= -100)) return null;
+        return { type: "price", mode: priceMode, amount: number };
+      case "stock":
+        return amount !== "" && Number.isInteger(stock) && stock >= 0 ? { type: "stock", value: stock } : null;
+      case "category":
+        return categoryId ? { type: "category", categoryId } : null;
+      case "activate":
+      case "deactivate":
+      case "archive":
+        return { type: actionType };
+      default:
+        return null;
+    }
+  })();
+
+  const changes = action ? planBulkAction(products, action) : [];
+  const changed = changes.filter((c) => c.changed);
+
+  return (
+    <Dialog open={!!actionType} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>
+            {actionType && BULK_ACTION_LABELS[actionType]} · {products.length} products
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {actionType === "price" && (
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label>Adjust by</Label>
+                <Select value={priceMode} onValueChange={(value) => setPriceMode(value as "percent" | "fixed")}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="percent">Percentage</SelectItem>
+                    <SelectItem value="fixed">Fixed amount ($)</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>{priceMode === "percent" ? "Percent (e.g. 10 or -15)" : "Amount (e.g. 2 or -1.50)"}</Label>
+                <Input type="number" step="any" value={amount} onChange={(e) => setAmount(e.target.value)} />
+              </div>
+            </div>
+          )}
+
+          {actionType === "stock" && (
+            <div>
+              <Label>Stock count</Label>
+              <Input type="number" min="0" value={amount} onChange={(e) => setAmount(e.target.value)} />
+              <p className="text-xs text-muted-foreground mt-1">Products with sizes get this stock for every size.</p>
+            </div>
+          )}
+
+          {actionType === "category" && (
+            <div>
+              <Label>Category</Label>
+              <Select value={categoryId} onValueChange={setCategoryId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Choose a category" />
+                </SelectTrigger>
+                <SelectContent>
+                  {categoryTree.map(({ category, depth }) => (
+                    <SelectItem key={category.id} value={category.id}>
+                      {"— ".repeat(depth)}
+                      {category.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground mt-1">Existing categories are kept.</p>
+            </div>
+          )}
+
+          {actionType === "archive" && (
+            <p className="text-sm text-muted-foreground">
+              Archived products disappear from the shop and are removed from customers' carts. Undo brings the
+              products back, but not the cart items.
+            </p>
+          )}
+
+          {action && (
+            <>
+              <p className="text-sm text-muted-foreground">
+                {changed.length} will change
+                {changes.length > changed.length && `, ${changes.length - changed.length} already match`}
+              </p>
+
+              {changed.length > 0 && (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Product</TableHead>
+                      <TableHead>Change</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {changed.map((change) => (
+                      <TableRow key={change.product.id}>
+                        <TableCell className="font-medium">{change.product.name}</TableCell>
+                        <TableCell className="text-sm">{describeChange(change, categories ?? [])}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </>
+          )}
+
+          <Button
+            className="w-full"
+            disabled={!action || changed.length === 0 || applying}
+            onClick={() => action && onApply(action, changed)}
+          >
+            {applying ? "Applying..." : `Apply to ${changed.length} products`}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
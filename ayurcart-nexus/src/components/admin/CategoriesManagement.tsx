@@ -0,0 +1,242 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/lib/supabase";
+import { slugify } from "@/lib/utils";
+import { Category, flattenCategoryTree, getDescendantIds } from "@/lib/categories";
+import { useCategories } from "@/hooks/use-categories";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Plus, Edit, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+
+const NO_PARENT = "none";
+
+export const CategoriesManagement = () => {
+  const queryClient = useQueryClient();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingCategory, setEditingCategory] = useState<Category | null>(null);
+
+  const [formData, setFormData] = useState({
+    name: "",
+    slug: "",
+    description: "",
+    parent_id: NO_PARENT,
+    sort_order: "0",
+  });
+
+  const { data: categories, isLoading } = useCategories();
+  const tree = flattenCategoryTree(categories ?? []);
+
+  // A category cannot be moved beneath itself or one of its own children
+  const blockedParentIds = editingCategory
+    ? getDescendantIds(categories ?? [], editingCategory.id)
+    : [];
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const data = {
+        name: formData.name,
+        slug: formData.slug || slugify(formData.name),
+        description: formData.description || null,
+        parent_id: formData.parent_id === NO_PARENT ? null : formData.parent_id,
+        sort_order: parseInt(formData.sort_order) || 0,
+      };
+
+      const { error } = editingCategory
+        ? await supabase.from("categories").update(data).eq("id", editingCategory.id)
+        : await supabase.from("categories").insert([data]);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["categories"] });
+      toast.success(editingCategory ? "Category updated successfully" : "Category created successfully");
+      setDialogOpen(false);
+      resetForm();
+    },
+    onError: (err: Error) => toast.error(err?.message || "Failed to save category"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from("categories").delete().eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["categories"] });
+      toast.success("Category deleted successfully");
+    },
+    onError: () => toast.error("Failed to delete category"),
+  });
+
+  const resetForm = () => {
+    setFormData({
+      name: "",
+      slug: "",
+      description: "",
+      parent_id: NO_PARENT,
+      sort_order: "0",
+    });
+    setEditingCategory(null);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    saveMutation.mutate();
+  };
+
+  const handleEdit = (category: Category) => {
+    setEditingCategory(category);
+    setFormData({
+      name: category.name,
+      slug: category.slug,
+      description: category.description || "",
+      parent_id: category.parent_id || NO_PARENT,
+      sort_order: category.sort_order.toString(),
+    });
+    setDialogOpen(true);
+  };
+
+  const parentName = (parentId: string | null) =>
+    categories?.find((c) => c.id === parentId)?.name || "—";
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle>Categories Management</CardTitle>
+
+        <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+          <DialogTrigger asChild>
+            <Button onClick={() => resetForm()}>
+              <Plus className="mr-2 h-4 w-4" />
+              Add Category
+            </Button>
+          </DialogTrigger>
+
+          <DialogContent className="max-w-lg">
+            <DialogHeader>
+              <DialogTitle>{editingCategory ? "Edit Category" : "Add New Category"}</DialogTitle>
+            </DialogHeader>
+
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div>
+                <Label>Category Name *</Label>
+                <Input
+                  value={formData.name}
+                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                  required
+                />
+              </div>
+
+              <div>
+                <Label>Slug</Label>
+                <Input
+                  value={formData.slug}
+                  placeholder={slugify(formData.name) || "hair-care"}
+                  onChange={(e) => setFormData({ ...formData, slug: slugify(e.target.value) })}
+                />
+              </div>
+
+              <div>
+                <Label>Parent Category</Label>
+                <Select
+                  value={formData.parent_id}
+                  onValueChange={(value) => setFormData({ ...formData, parent_id: value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_PARENT}>None (top level)</SelectItem>
+                    {tree
+                      .filter(({ category }) => !blockedParentIds.includes(category.id))
+                      .map(({ category, depth }) => (
+                        <SelectItem key={category.id} value={category.id}>
+                          {"— ".repeat(depth)}
+                          {category.name}
+                        </SelectItem>
+                      ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div>
+                <Label>Description</Label>
+                <Textarea
+                  value={formData.description}
+                  onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                />
+              </div>
+
+              <div>
+                <Label>Sort Order</Label>
+                <Input
+                  type="number"
+                  value={formData.sort_order}
+                  onChange={(e) => setFormData({ ...formData, sort_order: e.target.value })}
+                />
+              </div>
+
+              <Button type="submit" className="w-full" disabled={saveMutation.isPending}>
+                {editingCategory ? "Update Category" : "Create Category"}
+              </Button>
+            </form>
+          </DialogContent>
+        </Dialog>
+      </CardHeader>
+
+      <CardContent>
+        {isLoading ? (
+          <p>Loading...</p>
+        ) : tree.length === 0 ? (
+          <p className="text-center text-muted-foreground">No categories yet</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Slug</TableHead>
+                <TableHead>Parent</TableHead>
+                <TableHead>Order</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+
+            <TableBody>
+              {tree.map(({ category, depth }) => (
+                <TableRow key={category.id}>
+                  <TableCell className="font-medium" style={{ paddingLeft: `${1 + depth * 1.5}rem` }}>
+                    {category.name}
+                  </TableCell>
+                  <TableCell className="font-mono text-sm">{category.slug}</TableCell>
+                  <TableCell>{parentName(category.parent_id)}</TableCell>
+                  <TableCell>{category.sort_order}</TableCell>
+
+                  <TableCell className="text-right space-x-2">
+                    <Button variant="outline" size="sm" onClick={() => handleEdit(category)}>
+                      <Edit className="h-4 w-4" />
+                    </Button>
+
+                    <Button
+                      variant="destructive"
+                      size="sm"
+                      onClick={() => deleteMutation.mutate(category.id)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,257 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/lib/supabase";
+import { slugify } from "@/lib/utils";
+import { ALLERGENS, ALLERGEN_LABELS, type Allergen, type Ingredient } from "@/lib/ingredients";
+import { useIngredients } from "@/hooks/use-ingredients";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Plus, Edit, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+
+export const IngredientsManagement = () => {
+  const queryClient = useQueryClient();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingIngredient, setEditingIngredient] = useState<Ingredient | null>(null);
+
+  const [formData, setFormData] = useState({
+    name: "",
+    slug: "",
+    latin_name: "",
+    sanskrit_name: "",
+    description: "",
+    allergens: [] as Allergen[],
+  });
+
+  const { data: ingredients, isLoading } = useIngredients();
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const data = {
+        name: formData.name,
+        slug: formData.slug || slugify(formData.name),
+        latin_name: formData.latin_name || null,
+        sanskrit_name: formData.sanskrit_name || null,
+        description: formData.description || null,
+        allergens: formData.allergens,
+      };
+
+      const { error } = editingIngredient
+        ? await supabase.from("ingredients").update(data).eq("id", editingIngredient.id)
+        : await supabase.from("ingredients").insert([data]);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["ingredients"] });
+      toast.success(editingIngredient ? "Ingredient updated successfully" : "Ingredient created successfully");
+      setDialogOpen(false);
+      resetForm();
+    },
+    onError: (err: Error) => toast.error(err?.message || "Failed to save ingredient"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from("ingredients").delete().eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["ingredients"] });
+      toast.success("Ingredient deleted successfully");
+    },
+    onError: () => toast.error("Failed to delete ingredient"),
+  });
+
+  const resetForm = () => {
+    setFormData({
+      name: "",
+      slug: "",
+      latin_name: "",
+      sanskrit_name: "",
+      description: "",
+      allergens: [],
+    });
+    setEditingIngredient(null);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    saveMutation.mutate();
+  };
+
+  const handleEdit = (ingredient: Ingredient) => {
+    setEditingIngredient(ingredient);
+    setFormData({
+      name: ingredient.name,
+      slug: ingredient.slug,
+      latin_name: ingredient.latin_name || "",
+      sanskrit_name: ingredient.sanskrit_name || "",
+      description: ingredient.description || "",
+      allergens: ingredient.allergens,
+    });
+    setDialogOpen(true);
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle>Ingredients Management</CardTitle>
+
+        <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+          <DialogTrigger asChild>
+            <Button onClick={() => resetForm()}>
+              <Plus className="mr-2 h-4 w-4" />
+              Add Ingredient
+            </Button>
+          </DialogTrigger>
+
+          <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>{editingIngredient ? "Edit Ingredient" : "Add New Ingredient"}</DialogTitle>
+            </DialogHeader>
+
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div>
+                <Label>Ingredient Name *</Label>
+                <Input
+                  value={formData.name}
+                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                  required
+                />
+              </div>
+
+              <div>
+                <Label>Slug</Label>
+                <Input
+                  value={formData.slug}
+                  placeholder={slugify(formData.name) || "sesame-oil"}
+                  onChange={(e) => setFormData({ ...formData, slug: slugify(e.target.value) })}
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label>Latin Name</Label>
+                  <Input
+                    value={formData.latin_name}
+                    placeholder="Sesamum indicum"
+                    onChange={(e) => setFormData({ ...formData, latin_name: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <Label>Sanskrit Name</Label>
+                  <Input
+                    value={formData.sanskrit_name}
+                    placeholder="Tila Taila"
+                    onChange={(e) => setFormData({ ...formData, sanskrit_name: e.target.value })}
+                  />
+                </div>
+              </div>
+
+              <div>
+                <Label>Description</Label>
+                <Textarea
+                  value={formData.description}
+                  onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                />
+              </div>
+
+              <div>
+                <Label>Allergens</Label>
+                <div className="mt-2 grid grid-cols-2 gap-2 rounded-md border p-3">
+                  {ALLERGENS.map((allergen) => (
+                    <label key={allergen} className="flex items-center gap-2 text-sm">
+                      <Checkbox
+                        checked={formData.allergens.includes(allergen)}
+                        onCheckedChange={(checked) =>
+                          setFormData({
+                            ...formData,
+                            allergens: checked
+                              ? [...formData.allergens, allergen]
+                              : formData.allergens.filter((a) => a !== allergen),
+                          })
+                        }
+                      />
+                      {ALLERGEN_LABELS[allergen]}
+                    </label>
+                  ))}
+                </div>
+              </div>
+
+              <Button type="submit" className="w-full" disabled={saveMutation.isPending}>
+                {editingIngredient ? "Update Ingredient" : "Create Ingredient"}
+              </Button>
+            </form>
+          </DialogContent>
+        </Dialog>
+      </CardHeader>
+
+      <CardContent>
+        {isLoading ? (
+          <p>Loading...</p>
+        ) : !ingredients || ingredients.length === 0 ? (
+          <p className="text-center text-muted-foreground">No ingredients yet</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Latin / Sanskrit</TableHead>
+                <TableHead>Allergens</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+
+            <TableBody>
+              {ingredients.map((ingredient) => (
+                <TableRow key={ingredient.id}>
+                  <TableCell>
+                    <div className="font-medium">{ingredient.name}</div>
+                    <div className="font-mono text-xs text-muted-foreground">{ingredient.slug}</div>
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    {ingredient.latin_name && <div className="italic">{ingredient.latin_name}</div>}
+                    {ingredient.sanskrit_name && (
+                      <div className="text-muted-foreground">{ingredient.sanskrit_name}</div>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex flex-wrap gap-1">
+                      {ingredient.allergens.map((allergen) => (
+                        <Badge key={allergen} variant="destructive">
+                          {ALLERGEN_LABELS[allergen]}
+                        </Badge>
+                      ))}
+                    </div>
+                  </TableCell>
+
+                  <TableCell className="text-right space-x-2">
+                    <Button variant="outline" size="sm" onClick={() => handleEdit(ingredient)}>
+                      <Edit className="h-4 w-4" />
+                    </Button>
+
+                    <Button
+                      variant="destructive"
+                      size="sm"
+                      onClick={() => deleteMutation.mutate(ingredient.id)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
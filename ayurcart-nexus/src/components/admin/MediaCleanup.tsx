@@ -0,0 +1,119 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/lib/supabase";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Trash2 } from "lucide-react";
+import { toast } from "sonner";
+
+const formatSize = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MB` : `${Math.ceil(bytes / 1024)} KB`;
+
+export const MediaCleanup = () => {
+  const queryClient = useQueryClient();
+
+  const { data: orphans, isLoading } = useQuery({
+    queryKey: ["admin-orphaned-media"],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc("find_orphaned_media");
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const buckets = Object.entries(
+    (orphans ?? []).reduce<Record<string, { count: number; size: number; names: string[] }>>((totals, file) => {
+      const bucket = (totals[file.bucket_id] ??= { count: 0, size: 0, names: [] });
+      bucket.count += 1;
+      bucket.size += file.size;
+      bucket.names.push(file.name);
+      return totals;
+    }, {})
+  );
+
+  const cleanupMutation = useMutation({
+    mutationFn: async () => {
+      for (const [bucket, { names }] of buckets) {
+        const { error } = await supabase.storage.from(bucket).remove(names);
+        if (error) throw error;
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["admin-orphaned-media"] });
+      toast.success("Unused media removed");
+    },
+    onError: (err: Error) => toast.error(err?.message || "Failed to remove media"),
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Unused Media</CardTitle>
+        <p className="text-sm text-muted-foreground">
+          Product and blog files that nothing links to any more, such as images replaced in the editor. Uploads from
+          the last day are left alone.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <p>Loading...</p>
+        ) : buckets.length === 0 ? (
+          <p className="text-muted-foreground">No unused files.</p>
+        ) : (
+          <>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Bucket</TableHead>
+                  <TableHead>Files</TableHead>
+                  <TableHead>Size</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {buckets.map(([bucket, { count, size }]) => (
+                  <TableRow key={bucket}>
+                    <TableCell className="font-mono text-sm">{bucket}</TableCell>
+                    <TableCell>{count}</TableCell>
+                    <TableCell>{formatSize(size)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            <AlertDialog>
+              <AlertDialogTrigger asChild>
+                <Button variant="destructive" disabled={cleanupMutation.isPending}>
+                  <Trash2 className="mr-2 h-4 w-4" />
+                  {cleanupMutation.isPending ? "Removing..." : `Remove ${orphans?.length} files`}
+                </Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>Remove unused media?</AlertDialogTitle>
+                  <AlertDialogDescription>
+                    The files are deleted from storage for good. Products and blog posts are not affected.
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                  <AlertDialogAction onClick={() => cleanupMutation.mutate()}>Remove</AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -19,7 +19,7 @@ export const OrdersManagement = () => {
           profiles (name, email),
           order_items (
             *,
-            products (name)
+            products (name, archived_at)
           )
         `)
         .order("created_at", { ascending: false });
@@ -73,7 +73,11 @@ export const OrdersManagement = () => {
                   <TableCell>
                     {order.order_items.map((item: any, i: number) => (
                       <div key={i} className="text-sm">
-                        {item.products?.name} x{item.quantity}
+                        {item.products?.name ?? item.product_name}
+                        {item.variant_name && ` (${item.variant_name})`} x{item.quantity}
+                        {item.products?.archived_at && (
+                          <span className="ml-1 text-xs text-muted-foreground">(archived)</span>
+                        )}
                       </div>
                     ))}
                   </TableCell>
@@ -86,6 +90,7 @@ export const OrdersManagement = () => {
                   <TableCell>
                     <Select
                       value={order.delivery_status}
+                      disabled={order.delivery_status === "cancelled"}
                       onValueChange={(value) =>
                         updateDeliveryStatusMutation.mutate({ orderId: order.id, status: value })
                       }
@@ -97,6 +102,7 @@ export const OrdersManagement = () => {
                         <SelectItem value="processing">Processing</SelectItem>
                         <SelectItem value="shipped">Shipped</SelectItem>
                         <SelectItem value="delivered">Delivered</SelectItem>
+                        <SelectItem value="cancelled">Cancelled</SelectItem>
                       </SelectContent>
                     </Select>
                   </TableCell>
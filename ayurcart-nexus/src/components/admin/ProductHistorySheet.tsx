@@ -0,0 +1,137 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/lib/supabase";
+import type { Json } from "@/integrations/supabase/types";
+import { Button } from "@/components/ui/button";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { Undo2 } from "lucide-react";
+import { toast } from "sonner";
+
+const FIELD_LABELS: Record<string, string> = {
+  name: "Name",
+  slug: "Slug",
+  description: "Description",
+  benefits: "Benefits",
+  ingredients: "Ingredients",
+  usage_instructions: "Usage",
+  price: "Price",
+  sku: "SKU",
+  stock_count: "Stock",
+  image_url: "Main image",
+  doshas: "Doshas",
+  allergens: "Allergens",
+  is_active: "Active",
+  archived_at: "Archived",
+};
+
+// Audited but never written back by revert_product_revision
+const NOT_REVERTIBLE = ["stock_count", "image_url", "allergens"];
+
+function formatValue(field: string, value: Json | undefined): string {
+  if (value === null || value === undefined || value === "") return "—";
+  if (field === "price") return `$${Number(value).toFixed(2)}`;
+  if (field === "archived_at") return new Date(String(value)).toLocaleString();
+  if (typeof value === "boolean") return value ? "Yes" : "No";
+  if (Array.isArray(value)) return value.length > 0 ? value.join(", ") : "—";
+
+  const text = String(value);
+  return text.length > 80 ? `${text.slice(0, 80)}…` : text;
+}
+
+interface ProductHistorySheetProps {
+  product: { id: string; name: string } | null;
+  onClose: () => void;
+}
+
+export const ProductHistorySheet = ({ product, onClose }: ProductHistorySheetProps) => {
+  const queryClient = useQueryClient();
+
+  const { data: revisions, isLoading } = useQuery({
+    queryKey: ["admin-product-revisions", product?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("product_revisions")
+        .select("id, variant_name, old_values, new_values, created_at, profiles (name)")
+        .eq("product_id", product!.id)
+        .order("created_at", { ascending: false });
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!product,
+  });
+
+  const revertMutation = useMutation({
+    mutationFn: async (revisionId: string) => {
+      const { error } = await supabase.rpc("revert_product_revision", { _revision_id: revisionId });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["admin-products"] });
+      queryClient.invalidateQueries({ queryKey: ["admin-product-revisions", product?.id] });
+      toast.success("Change reverted");
+    },
+    onError: (err: Error) => toast.error(err?.message || "Failed to revert the change"),
+  });
+
+  return (
+    <Sheet open={!!product} onOpenChange={(open) => !open && onClose()}>
+      <SheetContent className="w-full sm:max-w-lg overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>History · {product?.name}</SheetTitle>
+          <SheetDescription>
+            Every change to the product and its sizes, newest first. Stock moved by orders isn't listed, and
+            categories and images have their own editors. Reverting writes the old values back, except stock, and
+            shows up here as a new change.
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="mt-6 space-y-4">
+          {isLoading ? (
+            <p>Loading...</p>
+          ) : !revisions || revisions.length === 0 ? (
+            <p className="text-muted-foreground">No changes yet.</p>
+          ) : (
+            revisions.map((revision) => {
+              const before = revision.old_values as Record<string, Json>;
+              const after = revision.new_values as Record<string, Json>;
+              const revertible = Object.keys(before).some((field) => !NOT_REVERTIBLE.includes(field));
+
+              return (
+                <div key={revision.id} className="rounded-md border p-3 space-y-2">
+                  <div className="flex items-start justify-between gap-2">
+                    <div className="text-sm">
+                      <p className="font-medium">{new Date(revision.created_at).toLocaleString()}</p>
+                      <p className="text-muted-foreground">
+                        {revision.profiles?.name ?? "System"}
+                        {revision.variant_name && ` · Size ${revision.variant_name}`}
+                      </p>
+                    </div>
+                    {revertible && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => revertMutation.mutate(revision.id)}
+                        disabled={revertMutation.isPending}
+                      >
+                        <Undo2 className="mr-2 h-4 w-4" />
+                        Revert
+                      </Button>
+                    )}
+                  </div>
+
+                  {Object.keys(after).map((field) => (
+                    <p key={field} className="text-sm">
+                      <span className="text-muted-foreground">{FIELD_LABELS[field] ?? field}:</span>{" "}
+                      <span className="line-through text-muted-foreground">{formatValue(field, before[field])}</span>{" "}
+                      → {formatValue(field, after[field])}
+                    </p>
+                  ))}
+                </div>
+              );
+            })
+          )}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+};
@@ -0,0 +1,122 @@
+import { useState } from "react";
+import { uploadImage } from "@/lib/images";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { GripVertical, Loader2, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+
+export interface ImageFormRow {
+  id?: string;
+  url: string;
+  storage_path: string | null;
+  alt_text: string;
+}
+
+interface ProductImagesEditorProps {
+  images: ImageFormRow[];
+  onChange: (images: ImageFormRow[]) => void;
+}
+
+export const ProductImagesEditor = ({ images, onChange }: ProductImagesEditorProps) => {
+  const [uploading, setUploading] = useState(false);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+
+  const upload = async (files: FileList) => {
+    setUploading(true);
+    const uploaded: ImageFormRow[] = [];
+
+    for (const file of Array.from(files)) {
+      try {
+        const image = await uploadImage("product-images", "products", file);
+        uploaded.push({ ...image, alt_text: "" });
+      } catch {
+        toast.error(`Failed to upload ${file.name}`);
+      }
+    }
+
+    setUploading(false);
+    if (uploaded.length > 0) {
+      onChange([...images, ...uploaded]);
+      toast.success(uploaded.length === 1 ? "Image uploaded" : `${uploaded.length} images uploaded`);
+    }
+  };
+
+  const move = (from: number, to: number) => {
+    if (from === to) return;
+    const next = [...images];
+    const [moved] = next.splice(from, 1);
+    next.splice(to, 0, moved);
+    onChange(next);
+  };
+
+  return (
+    <div>
+      <Label>Product Images</Label>
+      <p className="text-xs text-muted-foreground">
+        Drag to reorder. The first image is used as the cover.
+      </p>
+
+      {images.length > 0 && (
+        <div className="mt-2 grid grid-cols-3 gap-3">
+          {images.map((image, index) => (
+            <div
+              key={image.id ?? image.url}
+              draggable
+              onDragStart={() => setDragIndex(index)}
+              onDragOver={(e) => e.preventDefault()}
+              onDrop={() => {
+                if (dragIndex !== null) move(dragIndex, index);
+                setDragIndex(null);
+              }}
+              onDragEnd={() => setDragIndex(null)}
+              className={`space-y-1 rounded-md border p-2 ${dragIndex === index ? "opacity-50" : ""}`}
+            >
+              <div className="relative">
+                <img
+                  src={image.url}
+                  alt={image.alt_text}
+                  className="h-24 w-full cursor-move rounded object-cover"
+                />
+                <GripVertical className="absolute left-1 top-1 h-4 w-4 text-white drop-shadow" />
+                {index === 0 && <Badge className="absolute bottom-1 left-1">Cover</Badge>}
+                <Button
+                  type="button"
+                  variant="destructive"
+                  size="icon"
+                  className="absolute right-1 top-1 h-6 w-6"
+                  onClick={() => onChange(images.filter((_, i) => i !== index))}
+                >
+                  <Trash2 className="h-3 w-3" />
+                </Button>
+              </div>
+              <Input
+                placeholder="Alt text"
+                className="h-8 text-xs"
+                value={image.alt_text}
+                onChange={(e) =>
+                  onChange(images.map((img, i) => (i === index ? { ...img, alt_text: e.target.value } : img)))
+                }
+              />
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="mt-2 flex items-center gap-2">
+        <Input
+          type="file"
+          accept="image/*"
+          multiple
+          disabled={uploading}
+          onChange={async (e) => {
+            if (e.target.files?.length) await upload(e.target.files);
+            e.target.value = "";
+          }}
+        />
+        {uploading && <Loader2 className="h-4 w-4 animate-spin" />}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,289 @@
+import { useMemo, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import type { JSZipObject } from "jszip";
+import { supabase } from "@/lib/supabase";
+import { removeImage, uploadImage, type UploadedImage } from "@/lib/images";
+import { useCategories } from "@/hooks/use-categories";
+import { readSheet, type SheetRows } from "@/lib/spreadsheet";
+import {
+  imageFileKey,
+  isImageUrl,
+  planImport,
+  type CatalogProduct,
+  type ImportStatus,
+  type PlannedProduct,
+} from "@/lib/product-import";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Upload } from "lucide-react";
+import { toast } from "sonner";
+
+const STATUS_ORDER: ImportStatus[] = ["invalid", "create", "update", "unchanged"];
+
+const STATUS_BADGES: Record<ImportStatus, { label: string; variant: "default" | "secondary" | "destructive" | "outline" }> = {
+  invalid: { label: "Invalid", variant: "destructive" },
+  create: { label: "New", variant: "default" },
+  update: { label: "Update", variant: "secondary" },
+  unchanged: { label: "Unchanged", variant: "outline" },
+};
+
+const IMAGE_TYPES: Record<string, string> = {
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  png: "image/png",
+  webp: "image/webp",
+  gif: "image/gif",
+};
+
+const imageExtension = (name: string) => name.split(".").pop()?.toLowerCase() ?? "";
+
+interface ProductImportDialogProps {
+  products: CatalogProduct[];
+}
+
+export const ProductImportDialog = ({ products }: ProductImportDialogProps) => {
+  const queryClient = useQueryClient();
+  const { data: categories } = useCategories();
+  const [open, setOpen] = useState(false);
+  const [rows, setRows] = useState<SheetRows | null>(null);
+  const [images, setImages] = useState<Map<string, JSZipObject>>(new Map());
+  const [reading, setReading] = useState(false);
+
+  const plan = useMemo(
+    () => (rows ? planImport(rows, products, categories ?? [], new Set(images.keys())) : null),
+    [rows, products, categories, images]
+  );
+
+  const sorted = [...(plan?.products ?? [])].sort(
+    (a, b) => STATUS_ORDER.indexOf(a.status) - STATUS_ORDER.indexOf(b.status)
+  );
+  const count = (status: ImportStatus) => plan?.products.filter((p) => p.status === status).length ?? 0;
+  const toWrite = plan?.products.filter((p) => p.status === "create" || p.status === "update") ?? [];
+  const canApply =
+    !!plan && plan.fileErrors.length === 0 && count("invalid") === 0 && toWrite.length > 0;
+
+  const reset = () => {
+    setRows(null);
+    setImages(new Map());
+  };
+
+  const loadSheet = async (file: File | undefined) => {
+    if (!file) return;
+    setReading(true);
+    try {
+      setRows(await readSheet(file));
+    } catch {
+      toast.error(`Could not read ${file.name}`);
+      setRows(null);
+    } finally {
+      setReading(false);
+    }
+  };
+
+  const loadZip = async (file: File | undefined) => {
+    if (!file) return;
+    setReading(true);
+    try {
+      const { default: JSZip } = await import("jszip");
+      const zip = await JSZip.loadAsync(file);
+      const entries = Object.values(zip.files).filter(
+        (entry) => !entry.dir && !entry.name.startsWith("__MACOSX/") && imageExtension(entry.name) in IMAGE_TYPES
+      );
+      setImages(new Map(entries.map((entry) => [imageFileKey(entry.name), entry])));
+      toast.success(`${entries.length} images found in ${file.name}`);
+    } catch {
+      toast.error(`Could not open ${file.name}`);
+      setImages(new Map());
+    } finally {
+      setReading(false);
+    }
+  };
+
+  // Zip images are uploaded first; if the import itself fails they are removed again
+  const applyMutation = useMutation({
+    mutationFn: async (planned: PlannedProduct[]) => {
+      const uploaded = new Map<string, UploadedImage>();
+      const existingPaths = new Map(
+        products.flatMap((p) => p.product_images.map((image) => [image.url, image.storage_path] as const))
+      );
+
+      try {
+        const refs = new Set(planned.flatMap((p) => p.product.images ?? []).filter((ref) => !isImageUrl(ref)));
+
+        for (const ref of refs) {
+          const key = imageFileKey(ref);
+          if (uploaded.has(key)) continue;
+
+          const entry = images.get(key)!;
+          const file = new Blob([await entry.async("arraybuffer")], { type: IMAGE_TYPES[imageExtension(entry.name)] });
+          try {
+            uploaded.set(key, await uploadImage("product-images", "products", file));
+          } catch (err) {
+            throw new Error(`Failed to upload ${ref}: ${(err as Error).message}`);
+          }
+        }
+
+        const payload = planned.map(({ product }) => ({
+          ...product,
+          images:
+            product.images?.map((ref) =>
+              isImageUrl(ref)
+                ? { url: ref, storage_path: existingPaths.get(ref) ?? null }
+                : uploaded.get(imageFileKey(ref))!
+            ) ?? null,
+        }));
+
+        const { data, error } = await supabase.rpc("import_products", { _products: payload });
+        if (error) throw error;
+        return data;
+      } catch (err) {
+        const paths = [...uploaded.values()].map((image) => image.storage_path);
+        if (paths.length > 0) await removeImage("product-images", paths);
+        throw err;
+      }
+    },
+    onSuccess: (written) => {
+      queryClient.invalidateQueries({ queryKey: ["admin-products"] });
+      queryClient.invalidateQueries({ queryKey: ["admin-stock-subscriptions"] });
+      toast.success(`${written} products imported`);
+      setOpen(false);
+      reset();
+    },
+    onError: (err: Error) => toast.error(err?.message || "Import failed, nothing was changed"),
+  });
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        setOpen(next);
+        if (!next) reset();
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <Upload className="mr-2 h-4 w-4" />
+          Import
+        </Button>
+      </DialogTrigger>
+
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Products</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            Start from an export. Products are matched on slug and sizes on SKU; columns left out of the file are not
+            changed. For products with sizes, price and stock come from the size rows. List several categories, doshas
+            or images with semicolons.
+          </p>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="import-sheet">Spreadsheet (.csv or .xlsx)</Label>
+              <Input
+                id="import-sheet"
+                type="file"
+                accept=".csv,.xlsx"
+                onChange={(e) => loadSheet(e.target.files?.[0])}
+              />
+            </div>
+            <div>
+              <Label htmlFor="import-images">Images (.zip, optional)</Label>
+              <Input id="import-images" type="file" accept=".zip" onChange={(e) => loadZip(e.target.files?.[0])} />
+            </div>
+          </div>
+
+          {reading && <p className="text-sm text-muted-foreground">Reading file...</p>}
+
+          {plan && (
+            <>
+              {plan.fileErrors.length > 0 && (
+                <div className="rounded-md border border-destructive p-3 text-sm text-destructive space-y-1">
+                  {plan.fileErrors.map((message) => (
+                    <p key={message}>{message}</p>
+                  ))}
+                </div>
+              )}
+
+              {plan.products.length > 0 && (
+                <>
+                  <div className="flex flex-wrap gap-2">
+                    {STATUS_ORDER.map((status) => (
+                      <Badge key={status} variant={STATUS_BADGES[status].variant}>
+                        {count(status)} {STATUS_BADGES[status].label.toLowerCase()}
+                      </Badge>
+                    ))}
+                  </div>
+
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Status</TableHead>
+                        <TableHead>Product</TableHead>
+                        <TableHead>Details</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {sorted.map((planned) => (
+                        <TableRow key={planned.slug}>
+                          <TableCell>
+                            <Badge variant={STATUS_BADGES[planned.status].variant}>
+                              {STATUS_BADGES[planned.status].label}
+                            </Badge>
+                          </TableCell>
+                          <TableCell>
+                            <div className="font-medium">{planned.product.name || planned.slug}</div>
+                            <div className="font-mono text-xs text-muted-foreground">{planned.slug}</div>
+                          </TableCell>
+                          <TableCell className="text-sm">
+                            {planned.errors.map((message) => (
+                              <p key={message} className="text-destructive">
+                                {message}
+                              </p>
+                            ))}
+                            {planned.status === "update" &&
+                              planned.changes.map((change) => (
+                                <p key={change.field}>
+                                  <span className="text-muted-foreground">{change.field}:</span>{" "}
+                                  <span className="line-through text-muted-foreground">{change.from || "—"}</span>{" "}
+                                  → {change.to || "—"}
+                                </p>
+                              ))}
+                            {planned.status === "create" && (
+                              <p className="text-muted-foreground">
+                                ${planned.product.price.toFixed(2)} · {planned.product.stock_count} in stock
+                                {planned.product.variants && ` · ${planned.product.variants.length} sizes`}
+                              </p>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </>
+              )}
+
+              <Button
+                className="w-full"
+                disabled={!canApply || applyMutation.isPending}
+                onClick={() => applyMutation.mutate(toWrite)}
+              >
+                {applyMutation.isPending
+                  ? "Importing..."
+                  : count("invalid") > 0
+                    ? "Fix the invalid rows to import"
+                    : `Import ${toWrite.length} products`}
+              </Button>
+            </>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
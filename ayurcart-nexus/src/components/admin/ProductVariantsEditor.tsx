@@ -0,0 +1,113 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Plus, Trash2 } from "lucide-react";
+
+export interface VariantFormRow {
+  id?: string;
+  name: string;
+  sku: string;
+  price: string;
+  stock_count: string;
+  is_active: boolean;
+}
+
+const EMPTY_VARIANT_ROW: VariantFormRow = {
+  name: "",
+  sku: "",
+  price: "",
+  stock_count: "0",
+  is_active: true,
+};
+
+interface ProductVariantsEditorProps {
+  variants: VariantFormRow[];
+  onChange: (variants: VariantFormRow[]) => void;
+}
+
+export const ProductVariantsEditor = ({ variants, onChange }: ProductVariantsEditorProps) => {
+  const update = (index: number, patch: Partial<VariantFormRow>) =>
+    onChange(variants.map((variant, i) => (i === index ? { ...variant, ...patch } : variant)));
+
+  return (
+    <div>
+      <div className="flex items-center justify-between">
+        <Label>Sizes / Packs</Label>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => onChange([...variants, { ...EMPTY_VARIANT_ROW }])}
+        >
+          <Plus className="mr-2 h-4 w-4" />
+          Add Variant
+        </Button>
+      </div>
+
+      {variants.length === 0 ? (
+        <p className="mt-2 text-sm text-muted-foreground">
+          No variants — the product is sold at the price and stock above.
+        </p>
+      ) : (
+        <div className="mt-2 space-y-2 rounded-md border p-3">
+          <div className="grid grid-cols-[1fr_1fr_5rem_5rem_auto_auto] gap-2 text-xs text-muted-foreground">
+            <span>Name</span>
+            <span>SKU</span>
+            <span>Price</span>
+            <span>Stock</span>
+            <span>Active</span>
+            <span />
+          </div>
+
+          {variants.map((variant, index) => (
+            <div
+              key={variant.id ?? index}
+              className="grid grid-cols-[1fr_1fr_5rem_5rem_auto_auto] items-center gap-2"
+            >
+              <Input
+                placeholder="e.g. 100 ml"
+                value={variant.name}
+                onChange={(e) => update(index, { name: e.target.value })}
+                required
+              />
+              <Input
+                value={variant.sku}
+                onChange={(e) => update(index, { sku: e.target.value })}
+                required
+              />
+              <Input
+                type="number"
+                step="0.01"
+                min="0"
+                value={variant.price}
+                onChange={(e) => update(index, { price: e.target.value })}
+                required
+              />
+              <Input
+                type="number"
+                min="0"
+                value={variant.stock_count}
+                onChange={(e) => update(index, { stock_count: e.target.value })}
+                required
+              />
+              <Switch
+                checked={variant.is_active}
+                onCheckedChange={(checked) => update(index, { is_active: checked })}
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="text-destructive hover:text-destructive"
+                onClick={() => onChange(variants.filter((_, i) => i !== index))}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -6,33 +6,82 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
-import { Plus, Edit, Trash2 } from "lucide-react";
+import { Plus, Edit, Archive, ArchiveRestore, Download, History, Undo2 } from "lucide-react";
 import { toast } from "sonner";
+import { slugify } from "@/lib/utils";
+import { useCategories } from "@/hooks/use-categories";
+import { useIngredients } from "@/hooks/use-ingredients";
+import { flattenCategoryTree } from "@/lib/categories";
+import { DOSHAS, DOSHA_INFO, type Dosha } from "@/lib/dosha";
+import { ProductVariantsEditor, VariantFormRow } from "@/components/admin/ProductVariantsEditor";
+import { ImageFormRow, ProductImagesEditor } from "@/components/admin/ProductImagesEditor";
+import { ProductImportDialog } from "@/components/admin/ProductImportDialog";
+import { BulkEditDialog } from "@/components/admin/BulkEditDialog";
+import { ProductHistorySheet } from "@/components/admin/ProductHistorySheet";
+import { BULK_ACTIONS, BULK_ACTION_LABELS, diffSnapshots, type BulkAction, type ProductPatch } from "@/lib/bulk-edit";
+import { catalogToRows } from "@/lib/product-import";
+import { downloadBlob, writeSheet, type SheetFormat } from "@/lib/spreadsheet";
+import { removeImage } from "@/lib/images";
 
 export const ProductsManagement = () => {
   const queryClient = useQueryClient();
   const [dialogOpen, setDialogOpen] = useState(false);
   const [editingProduct, setEditingProduct] = useState<any>(null);
+  const [archivingProduct, setArchivingProduct] = useState<{ id: string; name: string } | null>(null);
+  const [historyProduct, setHistoryProduct] = useState<{ id: string; name: string } | null>(null);
+  const [showArchived, setShowArchived] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [bulkAction, setBulkAction] = useState<BulkAction["type"] | null>(null);
+  // Only the latest bulk edit can be undone
+  const [lastBulkEdit, setLastBulkEdit] = useState<{ label: string; patches: ProductPatch[] } | null>(null);
 
   const [formData, setFormData] = useState({
     name: "",
+    slug: "",
     description: "",
     benefits: "",
     ingredients: "",
     usage_instructions: "",
     price: "",
     stock_count: "",
-    image_url: "",
+    doshas: [] as Dosha[],
   });
+  const [categoryIds, setCategoryIds] = useState<string[]>([]);
+  const [ingredientIds, setIngredientIds] = useState<string[]>([]);
+  const [variants, setVariants] = useState<VariantFormRow[]>([]);
+  const [images, setImages] = useState<ImageFormRow[]>([]);
+
+  const { data: categories } = useCategories();
+  const categoryTree = flattenCategoryTree(categories ?? []);
+  const { data: ingredients } = useIngredients();
 
   const { data: products, isLoading } = useQuery({
     queryKey: ["admin-products"],
     queryFn: async () => {
       const { data, error } = await supabase
         .from("products")
-        .select("*")
+        .select("*, product_categories(category_id), product_ingredients(ingredient_id), product_variants(*), product_images(*)")
         .order("created_at", { ascending: false });
 
       if (error) throw error;
@@ -40,10 +89,117 @@ export const ProductsManagement = () => {
     },
   });
 
+  // Replace the product's category links with the ones ticked in the form
+  const saveCategories = async (productId: string) => {
+    const { error: deleteError } = await supabase
+      .from("product_categories")
+      .delete()
+      .eq("product_id", productId);
+    if (deleteError) throw deleteError;
+
+    if (categoryIds.length === 0) return;
+
+    const { error } = await supabase
+      .from("product_categories")
+      .insert(categoryIds.map((category_id) => ({ product_id: productId, category_id })));
+    if (error) throw error;
+  };
+
+  // Same for ingredient links; the database recomputes the product's allergens from them
+  const saveIngredients = async (productId: string) => {
+    const { error: deleteError } = await supabase
+      .from("product_ingredients")
+      .delete()
+      .eq("product_id", productId);
+    if (deleteError) throw deleteError;
+
+    if (ingredientIds.length === 0) return;
+
+    const { error } = await supabase
+      .from("product_ingredients")
+      .insert(ingredientIds.map((ingredient_id) => ({ product_id: productId, ingredient_id })));
+    if (error) throw error;
+  };
+
+  // Upsert the variants in the form and drop the ones that were removed from it
+  const saveVariants = async (productId: string) => {
+    const keptIds = variants.flatMap((v) => (v.id ? [v.id] : []));
+    const removedIds = (editingProduct?.product_variants ?? [])
+      .map((v: { id: string }) => v.id)
+      .filter((id: string) => !keptIds.includes(id));
+
+    if (removedIds.length > 0) {
+      const { error } = await supabase.from("product_variants").delete().in("id", removedIds);
+      if (error) throw error;
+    }
+
+    for (const [index, variant] of variants.entries()) {
+      const row = {
+        product_id: productId,
+        name: variant.name.trim(),
+        sku: variant.sku.trim(),
+        price: parseFloat(variant.price),
+        stock_count: parseInt(variant.stock_count),
+        is_active: variant.is_active,
+        sort_order: index,
+      };
+
+      const { error } = variant.id
+        ? await supabase.from("product_variants").update(row).eq("id", variant.id)
+        : await supabase.from("product_variants").insert(row);
+      if (error) throw error;
+    }
+  };
+
+  // Same as saveVariants; removed images are also deleted from storage
+  const saveImages = async (productId: string) => {
+    const keptIds = images.flatMap((img) => (img.id ? [img.id] : []));
+    const removed = (editingProduct?.product_images ?? []).filter(
+      (img: { id: string }) => !keptIds.includes(img.id)
+    );
+
+    if (removed.length > 0) {
+      const { error } = await supabase
+        .from("product_images")
+        .delete()
+        .in("id", removed.map((img: { id: string }) => img.id));
+      if (error) throw error;
+
+      const paths = removed.flatMap((img: { storage_path: string | null }) =>
+        img.storage_path ? [img.storage_path] : []
+      );
+      if (paths.length > 0) await removeImage("product-images", paths);
+    }
+
+    for (const [index, image] of images.entries()) {
+      const row = {
+        product_id: productId,
+        url: image.url,
+        storage_path: image.storage_path,
+        alt_text: image.alt_text.trim() || null,
+        sort_order: index,
+      };
+
+      const { error } = image.id
+        ? await supabase.from("product_images").update(row).eq("id", image.id)
+        : await supabase.from("product_images").insert(row);
+      if (error) throw error;
+    }
+  };
+
   const createMutation = useMutation({
     mutationFn: async (data: any) => {
-      const { error } = await supabase.from("products").insert([data]);
+      const { data: product, error } = await supabase
+        .from("products")
+        .insert([data])
+        .select("id")
+        .single();
       if (error) throw error;
+
+      await saveCategories(product.id);
+      await saveIngredients(product.id);
+      await saveVariants(product.id);
+      await saveImages(product.id);
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["admin-products"] });
@@ -57,46 +213,135 @@ export const ProductsManagement = () => {
     mutationFn: async ({ id, data }: { id: string; data: any }) => {
       const { error } = await supabase.from("products").update(data).eq("id", id);
       if (error) throw error;
+
+      await saveCategories(id);
+      await saveIngredients(id);
+      await saveVariants(id);
+      await saveImages(id);
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["admin-products"] });
+      // Restocking notifies waiting customers, which clears them from the demand list
+      queryClient.invalidateQueries({ queryKey: ["admin-stock-subscriptions"] });
       toast.success("Product updated successfully");
       setDialogOpen(false);
       resetForm();
     },
   });
 
-  const deleteMutation = useMutation({
+  // Products are never deleted: order history still points at them
+  const archiveMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase
+        .from("products")
+        .update({ is_active: false, archived_at: new Date().toISOString() })
+        .eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["admin-products"] });
+      toast.success("Product archived");
+      setArchivingProduct(null);
+    },
+    onError: (err: Error) => toast.error(err?.message || "Failed to archive product"),
+  });
+
+  const restoreMutation = useMutation({
     mutationFn: async (id: string) => {
-      const { error } = await supabase.from("products").delete().eq("id", id);
+      const { error } = await supabase
+        .from("products")
+        .update({ is_active: true, archived_at: null })
+        .eq("id", id);
       if (error) throw error;
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["admin-products"] });
-      toast.success("Product deleted successfully");
+      toast.success("Product restored");
+    },
+    onError: (err: Error) => toast.error(err?.message || "Failed to restore product"),
+  });
+
+  const exportCatalog = async (sheetFormat: SheetFormat) => {
+    const blob = await writeSheet(catalogToRows(products ?? [], categories ?? []), sheetFormat, "Products");
+    downloadBlob(blob, `products-${new Date().toISOString().slice(0, 10)}.${sheetFormat}`);
+  };
+
+  // undo holds the patches that revert this edit, or null when this is the undo.
+  // The RPC returns the products it skipped because they changed since the patches were built.
+  const bulkMutation = useMutation({
+    mutationFn: async ({
+      patches,
+    }: {
+      patches: ProductPatch[];
+      label: string;
+      undo: ProductPatch[] | null;
+    }) => {
+      const { data, error } = await supabase.rpc("bulk_update_products", { _patches: patches });
+      if (error) throw error;
+      return data ?? [];
+    },
+    onSuccess: (skipped, { patches, label, undo }) => {
+      queryClient.invalidateQueries({ queryKey: ["admin-products"] });
+      queryClient.invalidateQueries({ queryKey: ["admin-stock-subscriptions"] });
+      // Skipped products were never changed, so there is nothing of theirs to undo
+      const undoable = undo?.filter((patch) => !skipped.includes(patch.id)) ?? [];
+      setLastBulkEdit(undoable.length > 0 ? { label, patches: undoable } : null);
+      setBulkAction(null);
+      setSelectedIds([]);
+
+      const updated = patches.length - skipped.length;
+      if (skipped.length === 0) {
+        toast.success(undo ? `${label}: ${updated} products updated` : `${label} undone`);
+      } else if (undo) {
+        toast.warning(`${label}: ${updated} products updated, ${skipped.length} skipped as they changed meanwhile`);
+      } else {
+        toast.warning(`${label} undone for ${updated} products, ${skipped.length} changed since and were kept`);
+      }
     },
+    onError: (err: Error) => toast.error(err?.message || "Bulk edit failed, nothing was changed"),
   });
 
+  const archivedCount = products?.filter((p) => p.archived_at).length ?? 0;
+  const visibleProducts = products?.filter((p) => showArchived || !p.archived_at);
+  const selectedProducts = visibleProducts?.filter((p) => selectedIds.includes(p.id)) ?? [];
+  const allSelected = !!visibleProducts?.length && selectedProducts.length === visibleProducts.length;
+
   const resetForm = () => {
     setFormData({
       name: "",
+      slug: "",
       description: "",
       benefits: "",
       ingredients: "",
       usage_instructions: "",
       price: "",
       stock_count: "",
-      image_url: "",
+      doshas: [],
     });
+    setCategoryIds([]);
+    setIngredientIds([]);
+    setVariants([]);
+    setImages([]);
     setEditingProduct(null);
   };
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
+    // With variants, the product shows the cheapest active size and the stock of all of them
+    const activeVariants = variants.filter((v) => v.is_active);
     const data = {
       ...formData,
-      price: parseFloat(formData.price),
-      stock_count: parseInt(formData.stock_count),
+      // Left blank, the database picks a unique slug from the name
+      slug: formData.slug || null,
+      image_url: images[0]?.url ?? null,
+      price:
+        activeVariants.length > 0
+          ? Math.min(...activeVariants.map((v) => parseFloat(v.price)))
+          : parseFloat(formData.price),
+      stock_count:
+        activeVariants.length > 0
+          ? activeVariants.reduce((sum, v) => sum + parseInt(v.stock_count), 0)
+          : parseInt(formData.stock_count),
     };
 
     if (editingProduct) {
@@ -110,14 +355,41 @@ export const ProductsManagement = () => {
     setEditingProduct(product);
     setFormData({
       name: product.name,
+      slug: product.slug,
       description: product.description || "",
       benefits: product.benefits || "",
       ingredients: product.ingredients || "",
       usage_instructions: product.usage_instructions || "",
       price: product.price.toString(),
       stock_count: product.stock_count.toString(),
-      image_url: product.image_url || "",
+      doshas: product.doshas ?? [],
     });
+    setCategoryIds(product.product_categories?.map((pc: { category_id: string }) => pc.category_id) || []);
+    setIngredientIds(
+      product.product_ingredients?.map((pi: { ingredient_id: string }) => pi.ingredient_id) || []
+    );
+    setVariants(
+      [...(product.product_variants ?? [])]
+        .sort((a, b) => a.sort_order - b.sort_order)
+        .map((v) => ({
+          id: v.id,
+          name: v.name,
+          sku: v.sku,
+          price: v.price.toString(),
+          stock_count: v.stock_count.toString(),
+          is_active: v.is_active,
+        }))
+    );
+    setImages(
+      [...(product.product_images ?? [])]
+        .sort((a, b) => a.sort_order - b.sort_order)
+        .map((img) => ({
+          id: img.id,
+          url: img.url,
+          storage_path: img.storage_path,
+          alt_text: img.alt_text || "",
+        }))
+    );
     setDialogOpen(true);
   };
 
@@ -126,139 +398,264 @@ export const ProductsManagement = () => {
       <CardHeader className="flex flex-row items-center justify-between">
         <CardTitle>Products Management</CardTitle>
 
-        <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
-          <DialogTrigger asChild>
-            <Button onClick={() => resetForm()}>
-              <Plus className="mr-2 h-4 w-4" />
-              Add Product
-            </Button>
-          </DialogTrigger>
-
-          <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
-            <DialogHeader>
-              <DialogTitle>{editingProduct ? "Edit Product" : "Add New Product"}</DialogTitle>
-            </DialogHeader>
-
-            {/* FORM */}
-            <form onSubmit={handleSubmit} className="space-y-4">
-              <div>
-                <Label>Product Name *</Label>
-                <Input
-                  value={formData.name}
-                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
-                  required
-                />
-              </div>
-
-              <div>
-                <Label>Description</Label>
-                <Textarea
-                  value={formData.description}
-                  onChange={(e) => setFormData({ ...formData, description: e.target.value })}
-                />
-              </div>
-
-              <div>
-                <Label>Benefits</Label>
-                <Textarea
-                  value={formData.benefits}
-                  onChange={(e) => setFormData({ ...formData, benefits: e.target.value })}
-                />
-              </div>
-
-              <div>
-                <Label>Ingredients</Label>
-                <Textarea
-                  value={formData.ingredients}
-                  onChange={(e) => setFormData({ ...formData, ingredients: e.target.value })}
-                />
-              </div>
-
-              <div>
-                <Label>Usage Instructions</Label>
-                <Textarea
-                  value={formData.usage_instructions}
-                  onChange={(e) =>
-                    setFormData({ ...formData, usage_instructions: e.target.value })
-                  }
-                />
-              </div>
-
-              <div className="grid grid-cols-2 gap-4">
+        <div className="flex items-center gap-4">
+          <div className="flex items-center gap-2">
+            <Switch id="show-archived" checked={showArchived} onCheckedChange={setShowArchived} />
+            <Label htmlFor="show-archived">Show archived ({archivedCount})</Label>
+          </div>
+
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline" disabled={!products}>
+                <Download className="mr-2 h-4 w-4" />
+                Export
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuItem onClick={() => exportCatalog("csv")}>CSV</DropdownMenuItem>
+              <DropdownMenuItem onClick={() => exportCatalog("xlsx")}>Excel (.xlsx)</DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+
+          <ProductImportDialog products={products ?? []} />
+
+          <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+            <DialogTrigger asChild>
+              <Button onClick={() => resetForm()}>
+                <Plus className="mr-2 h-4 w-4" />
+                Add Product
+              </Button>
+            </DialogTrigger>
+
+            <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+              <DialogHeader>
+                <DialogTitle>{editingProduct ? "Edit Product" : "Add New Product"}</DialogTitle>
+              </DialogHeader>
+
+              {/* FORM */}
+              <form onSubmit={handleSubmit} className="space-y-4">
                 <div>
-                  <Label>Price *</Label>
+                  <Label>Product Name *</Label>
                   <Input
-                    type="number"
-                    value={formData.price}
-                    onChange={(e) => setFormData({ ...formData, price: e.target.value })}
+                    value={formData.name}
+                    onChange={(e) => setFormData({ ...formData, name: e.target.value })}
                     required
                   />
                 </div>
 
                 <div>
-                  <Label>Stock Count *</Label>
+                  <Label>URL Slug</Label>
                   <Input
-                    type="number"
-                    value={formData.stock_count}
+                    value={formData.slug}
+                    placeholder={slugify(formData.name) || "brahmi-hair-oil"}
+                    onChange={(e) => setFormData({ ...formData, slug: slugify(e.target.value) })}
+                  />
+                  {editingProduct && formData.slug !== editingProduct.slug && (
+                    <p className="text-xs text-muted-foreground mt-1">
+                      Links already shared with the old slug will stop working.
+                    </p>
+                  )}
+                </div>
+
+                <div>
+                  <Label>Description</Label>
+                  <Textarea
+                    value={formData.description}
+                    onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                  />
+                </div>
+
+                <div>
+                  <Label>Benefits</Label>
+                  <Textarea
+                    value={formData.benefits}
+                    onChange={(e) => setFormData({ ...formData, benefits: e.target.value })}
+                  />
+                </div>
+
+                <div>
+                  <Label>Ingredients</Label>
+                  <Textarea
+                    value={formData.ingredients}
+                    onChange={(e) => setFormData({ ...formData, ingredients: e.target.value })}
+                  />
+                </div>
+
+                {ingredients && ingredients.length > 0 && (
+                  <div>
+                    <Label>Linked Ingredients</Label>
+                    <div className="mt-2 grid max-h-48 grid-cols-2 gap-2 overflow-y-auto rounded-md border p-3">
+                      {ingredients.map((ingredient) => (
+                        <label key={ingredient.id} className="flex items-center gap-2 text-sm">
+                          <Checkbox
+                            checked={ingredientIds.includes(ingredient.id)}
+                            onCheckedChange={(checked) =>
+                              setIngredientIds(
+                                checked
+                                  ? [...ingredientIds, ingredient.id]
+                                  : ingredientIds.filter((id) => id !== ingredient.id)
+                              )
+                            }
+                          />
+                          {ingredient.name}
+                        </label>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                <div>
+                  <Label>Usage Instructions</Label>
+                  <Textarea
+                    value={formData.usage_instructions}
                     onChange={(e) =>
-                      setFormData({ ...formData, stock_count: e.target.value })
+                      setFormData({ ...formData, usage_instructions: e.target.value })
                     }
-                    required
                   />
                 </div>
-              </div>
-
-              {/* FIXED IMAGE UPLOAD */}
-              <div>
-                <Label>Upload Product Image</Label>
-                <Input
-                  type="file"
-                  accept="image/*"
-                  onChange={async (e) => {
-                    const file = e.target.files?.[0];
-                    if (!file) return;
-
-                    const fileExt = file.name.split(".").pop();
-                    const fileName = `${Date.now()}.${fileExt}`;
-                    const filePath = `products/${fileName}`;
-
-                    // Upload file
-                    const { error: uploadError } = await supabase.storage
-                      .from("product-images")
-                      .upload(filePath, file, { upsert: true });
-
-                    if (uploadError) {
-                      toast.error("Image upload failed");
-                      return;
-                    }
-
-                    // Get public URL
-                    const { data: publicData } = supabase.storage
-                      .from("product-images")
-                      .getPublicUrl(filePath);
 
-                    setFormData({ ...formData, image_url: publicData.publicUrl });
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <Label>Price *</Label>
+                    <Input
+                      type="number"
+                      value={formData.price}
+                      onChange={(e) => setFormData({ ...formData, price: e.target.value })}
+                      disabled={variants.length > 0}
+                      required={variants.length === 0}
+                    />
+                  </div>
+
+                  <div>
+                    <Label>Stock Count *</Label>
+                    <Input
+                      type="number"
+                      value={formData.stock_count}
+                      onChange={(e) =>
+                        setFormData({ ...formData, stock_count: e.target.value })
+                      }
+                      disabled={variants.length > 0}
+                      required={variants.length === 0}
+                    />
+                  </div>
+                </div>
 
-                    toast.success("Image uploaded successfully");
-                  }}
-                />
-              </div>
+                <div>
+                  <Label>Suits Doshas</Label>
+                  <div className="mt-2 flex gap-6">
+                    {DOSHAS.map((dosha) => (
+                      <label key={dosha} className="flex items-center gap-2 text-sm">
+                        <Checkbox
+                          checked={formData.doshas.includes(dosha)}
+                          onCheckedChange={(checked) =>
+                            setFormData({
+                              ...formData,
+                              doshas: checked
+                                ? [...formData.doshas, dosha]
+                                : formData.doshas.filter((d) => d !== dosha),
+                            })
+                          }
+                        />
+                        {DOSHA_INFO[dosha].label}
+                      </label>
+                    ))}
+                  </div>
+                </div>
 
-              <Button type="submit" className="w-full">
-                {editingProduct ? "Update Product" : "Create Product"}
-              </Button>
-            </form>
-          </DialogContent>
-        </Dialog>
+                <ProductVariantsEditor variants={variants} onChange={setVariants} />
+
+                {categoryTree.length > 0 && (
+                  <div>
+                    <Label>Categories</Label>
+                    <div className="mt-2 grid grid-cols-2 gap-2 rounded-md border p-3">
+                      {categoryTree.map(({ category, depth }) => (
+                        <label
+                          key={category.id}
+                          className="flex items-center gap-2 text-sm"
+                          style={{ paddingLeft: `${depth}rem` }}
+                        >
+                          <Checkbox
+                            checked={categoryIds.includes(category.id)}
+                            onCheckedChange={(checked) =>
+                              setCategoryIds(
+                                checked
+                                  ? [...categoryIds, category.id]
+                                  : categoryIds.filter((id) => id !== category.id)
+                              )
+                            }
+                          />
+                          {category.name}
+                        </label>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                <ProductImagesEditor images={images} onChange={setImages} />
+
+                <Button type="submit" className="w-full">
+                  {editingProduct ? "Update Product" : "Create Product"}
+                </Button>
+              </form>
+            </DialogContent>
+          </Dialog>
+        </div>
       </CardHeader>
 
       <CardContent>
+        {(selectedProducts.length > 0 || lastBulkEdit) && (
+          <div className="mb-4 flex flex-wrap items-center gap-2 rounded-md border bg-muted/50 p-3">
+            {selectedProducts.length > 0 && (
+              <>
+                <span className="mr-2 text-sm font-medium">{selectedProducts.length} selected</span>
+                {BULK_ACTIONS.map((type) => (
+                  <Button
+                    key={type}
+                    variant={type === "archive" ? "destructive" : "outline"}
+                    size="sm"
+                    onClick={() => setBulkAction(type)}
+                  >
+                    {BULK_ACTION_LABELS[type]}
+                  </Button>
+                ))}
+                <Button variant="ghost" size="sm" onClick={() => setSelectedIds([])}>
+                  Clear
+                </Button>
+              </>
+            )}
+
+            {lastBulkEdit && (
+              <Button
+                variant="secondary"
+                size="sm"
+                className="ml-auto"
+                disabled={bulkMutation.isPending}
+                onClick={() =>
+                  bulkMutation.mutate({ patches: lastBulkEdit.patches, label: lastBulkEdit.label, undo: null })
+                }
+              >
+                <Undo2 className="mr-2 h-4 w-4" />
+                Undo {lastBulkEdit.label.toLowerCase()}
+              </Button>
+            )}
+          </div>
+        )}
+
         {isLoading ? (
           <p>Loading...</p>
         ) : (
           <Table>
             <TableHeader>
               <TableRow>
+                <TableHead className="w-10">
+                  <Checkbox
+                    aria-label="Select all"
+                    checked={allSelected ? true : selectedProducts.length > 0 ? "indeterminate" : false}
+                    onCheckedChange={(checked) =>
+                      setSelectedIds(checked ? (visibleProducts ?? []).map((p) => p.id) : [])
+                    }
+                  />
+                </TableHead>
                 <TableHead>Image</TableHead>
                 <TableHead>Name</TableHead>
                 <TableHead>Price</TableHead>
@@ -269,9 +666,20 @@ export const ProductsManagement = () => {
             </TableHeader>
 
             <TableBody>
-              {products?.map((product) => (
-                <TableRow key={product.id}>
-                  
+              {visibleProducts?.map((product) => (
+                <TableRow key={product.id} className={product.archived_at ? "opacity-60" : undefined}>
+                  <TableCell>
+                    <Checkbox
+                      aria-label={`Select ${product.name}`}
+                      checked={selectedIds.includes(product.id)}
+                      onCheckedChange={(checked) =>
+                        setSelectedIds(
+                          checked ? [...selectedIds, product.id] : selectedIds.filter((id) => id !== product.id)
+                        )
+                      }
+                    />
+                  </TableCell>
+
                   <TableCell>
                     {product.image_url ? (
                       <img
@@ -287,22 +695,56 @@ export const ProductsManagement = () => {
                   </TableCell>
 
                   <TableCell className="font-medium">{product.name}</TableCell>
-                  <TableCell>${product.price}</TableCell>
+                  <TableCell>
+                    ${product.price}
+                    {product.product_variants.length > 0 && (
+                      <div className="text-xs text-muted-foreground">
+                        {product.product_variants.length} variants
+                      </div>
+                    )}
+                  </TableCell>
                   <TableCell>{product.stock_count}</TableCell>
-                  <TableCell>{product.is_active ? "Active" : "Inactive"}</TableCell>
+                  <TableCell>
+                    {product.archived_at ? (
+                      <Badge variant="secondary">
+                        Archived {new Date(product.archived_at).toLocaleDateString()}
+                      </Badge>
+                    ) : product.is_active ? (
+                      "Active"
+                    ) : (
+                      "Inactive"
+                    )}
+                  </TableCell>
 
                   <TableCell className="text-right space-x-2">
                     <Button variant="outline" size="sm" onClick={() => handleEdit(product)}>
                       <Edit className="h-4 w-4" />
                     </Button>
 
-                    <Button
-                      variant="destructive"
-                      size="sm"
-                      onClick={() => deleteMutation.mutate(product.id)}
-                    >
-                      <Trash2 className="h-4 w-4" />
+                    <Button variant="outline" size="sm" title="History" onClick={() => setHistoryProduct(product)}>
+                      <History className="h-4 w-4" />
                     </Button>
+
+                    {product.archived_at ? (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        title="Restore"
+                        onClick={() => restoreMutation.mutate(product.id)}
+                        disabled={restoreMutation.isPending}
+                      >
+                        <ArchiveRestore className="h-4 w-4" />
+                      </Button>
+                    ) : (
+                      <Button
+                        variant="destructive"
+                        size="sm"
+                        title="Archive"
+                        onClick={() => setArchivingProduct(product)}
+                      >
+                        <Archive className="h-4 w-4" />
+                      </Button>
+                    )}
                   </TableCell>
 
                 </TableRow>
@@ -311,6 +753,44 @@ export const ProductsManagement = () => {
           </Table>
         )}
       </CardContent>
+
+      <BulkEditDialog
+        key={bulkAction ?? "closed"}
+        actionType={bulkAction}
+        products={selectedProducts}
+        applying={bulkMutation.isPending}
+        onApply={(action, changes) =>
+          bulkMutation.mutate({
+            patches: changes.map((c) => diffSnapshots(c.before, c.after)),
+            label: BULK_ACTION_LABELS[action.type],
+            undo: changes.map((c) => diffSnapshots(c.after, c.before)),
+          })
+        }
+        onClose={() => setBulkAction(null)}
+      />
+
+      <ProductHistorySheet product={historyProduct} onClose={() => setHistoryProduct(null)} />
+
+      <AlertDialog open={!!archivingProduct} onOpenChange={(open) => !open && setArchivingProduct(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Archive {archivingProduct?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The product disappears from the shop and is removed from customers' carts. Past orders keep
+              showing it, and you can restore it at any time.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => archivingProduct && archiveMutation.mutate(archivingProduct.id)}
+              disabled={archiveMutation.isPending}
+            >
+              Archive
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </Card>
   );
 };
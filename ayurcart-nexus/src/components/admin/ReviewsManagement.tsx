@@ -0,0 +1,351 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/lib/supabase";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { StarRating } from "@/components/StarRating";
+import { Check, MessageSquare, ShieldAlert, X } from "lucide-react";
+import { toast } from "sonner";
+
+type ReviewStatus = "pending" | "approved" | "rejected";
+type ReviewFilter = ReviewStatus | "flagged" | "all";
+
+const STATUS_VARIANTS: Record<string, "default" | "secondary" | "destructive"> = {
+  pending: "secondary",
+  approved: "default",
+  rejected: "destructive",
+};
+
+export const ReviewsManagement = () => {
+  const queryClient = useQueryClient();
+  const [filter, setFilter] = useState<ReviewFilter>("pending");
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [replyingTo, setReplyingTo] = useState<{ id: string; reply: string } | null>(null);
+  const [wordsOpen, setWordsOpen] = useState(false);
+  const [wordsText, setWordsText] = useState("");
+
+  const { data: reviews, isLoading } = useQuery({
+    queryKey: ["admin-reviews"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("product_reviews")
+        .select("*, products(name)")
+        .order("created_at", { ascending: false });
+
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const { data: bannedWords } = useQuery({
+    queryKey: ["store-settings", "review_banned_words"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("store_settings")
+        .select("value")
+        .eq("key", "review_banned_words")
+        .maybeSingle();
+
+      if (error) throw error;
+      return Array.isArray(data?.value) ? (data.value as string[]) : [];
+    },
+  });
+
+  const setStatusMutation = useMutation({
+    mutationFn: async ({ ids, status }: { ids: string[]; status: ReviewStatus }) => {
+      const { error } = await supabase.from("product_reviews").update({ status }).in("id", ids);
+      if (error) throw error;
+    },
+    onSuccess: (_, { ids, status }) => {
+      queryClient.invalidateQueries({ queryKey: ["admin-reviews"] });
+      setSelectedIds([]);
+      toast.success(
+        `${ids.length} ${ids.length === 1 ? "review" : "reviews"} ${status === "approved" ? "approved" : "rejected"}`
+      );
+    },
+    onError: (err: Error) => {
+      toast.error(err?.message || "Failed to update reviews");
+    },
+  });
+
+  const replyMutation = useMutation({
+    mutationFn: async ({ id, reply }: { id: string; reply: string }) => {
+      const { error } = await supabase
+        .from("product_reviews")
+        .update({ admin_reply: reply.trim() || null })
+        .eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["admin-reviews"] });
+      toast.success("Reply saved");
+      setReplyingTo(null);
+    },
+    onError: (err: Error) => {
+      toast.error(err?.message || "Failed to save reply");
+    },
+  });
+
+  const saveWordsMutation = useMutation({
+    mutationFn: async (words: string[]) => {
+      const { error } = await supabase
+        .from("store_settings")
+        .upsert({ key: "review_banned_words", value: words });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["store-settings", "review_banned_words"] });
+      toast.success("Banned words updated");
+      setWordsOpen(false);
+    },
+    onError: (err: Error) => {
+      toast.error(err?.message || "Failed to update banned words");
+    },
+  });
+
+  const visibleReviews = (reviews ?? []).filter((review) => {
+    if (filter === "all") return true;
+    if (filter === "flagged") return review.status === "pending" && review.flagged_words.length > 0;
+    return review.status === filter;
+  });
+
+  const allSelected =
+    visibleReviews.length > 0 && visibleReviews.every((review) => selectedIds.includes(review.id));
+
+  const toggleSelected = (id: string, checked: boolean) =>
+    setSelectedIds(checked ? [...selectedIds, id] : selectedIds.filter((selected) => selected !== id));
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle>Reviews Moderation</CardTitle>
+        <div className="flex items-center gap-2">
+          <Select
+            value={filter}
+            onValueChange={(value) => {
+              setFilter(value as ReviewFilter);
+              setSelectedIds([]);
+            }}
+          >
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="pending">Pending</SelectItem>
+              <SelectItem value="flagged">Flagged</SelectItem>
+              <SelectItem value="approved">Approved</SelectItem>
+              <SelectItem value="rejected">Rejected</SelectItem>
+              <SelectItem value="all">All</SelectItem>
+            </SelectContent>
+          </Select>
+          <Button
+            variant="outline"
+            onClick={() => {
+              setWordsText((bannedWords ?? []).join(", "));
+              setWordsOpen(true);
+            }}
+          >
+            <ShieldAlert className="mr-2 h-4 w-4" />
+            Banned Words
+          </Button>
+        </div>
+      </CardHeader>
+
+      <CardContent>
+        {selectedIds.length > 0 && (
+          <div className="mb-4 flex items-center gap-2 rounded-md border bg-muted/50 p-2">
+            <span className="text-sm font-medium">{selectedIds.length} selected</span>
+            <Button
+              size="sm"
+              onClick={() => setStatusMutation.mutate({ ids: selectedIds, status: "approved" })}
+              disabled={setStatusMutation.isPending}
+            >
+              <Check className="mr-2 h-4 w-4" />
+              Approve
+            </Button>
+            <Button
+              size="sm"
+              variant="destructive"
+              onClick={() => setStatusMutation.mutate({ ids: selectedIds, status: "rejected" })}
+              disabled={setStatusMutation.isPending}
+            >
+              <X className="mr-2 h-4 w-4" />
+              Reject
+            </Button>
+            <Button size="sm" variant="ghost" onClick={() => setSelectedIds([])}>
+              Clear
+            </Button>
+          </div>
+        )}
+
+        {isLoading ? (
+          <p>Loading...</p>
+        ) : visibleReviews.length === 0 ? (
+          <p className="text-muted-foreground">No reviews here.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-10">
+                  <Checkbox
+                    checked={allSelected}
+                    onCheckedChange={(checked) =>
+                      setSelectedIds(checked ? visibleReviews.map((review) => review.id) : [])
+                    }
+                  />
+                </TableHead>
+                <TableHead>Product</TableHead>
+                <TableHead>Review</TableHead>
+                <TableHead>Customer</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+
+            <TableBody>
+              {visibleReviews.map((review) => (
+                <TableRow key={review.id}>
+                  <TableCell>
+                    <Checkbox
+                      checked={selectedIds.includes(review.id)}
+                      onCheckedChange={(checked) => toggleSelected(review.id, checked === true)}
+                    />
+                  </TableCell>
+                  <TableCell className="font-medium">{review.products?.name}</TableCell>
+                  <TableCell className="max-w-md space-y-1">
+                    <StarRating rating={review.rating} />
+                    {review.title && <p className="font-medium">{review.title}</p>}
+                    {review.body && <p className="text-sm text-muted-foreground line-clamp-3">{review.body}</p>}
+                    {review.photo_urls.length > 0 && (
+                      <div className="flex gap-1">
+                        {review.photo_urls.map((url) => (
+                          <a key={url} href={url} target="_blank" rel="noreferrer">
+                            <img src={url} alt="Review photo" className="h-10 w-10 rounded object-cover" />
+                          </a>
+                        ))}
+                      </div>
+                    )}
+                    {review.flagged_words.length > 0 && (
+                      <div className="flex flex-wrap gap-1">
+                        {review.flagged_words.map((word) => (
+                          <Badge key={word} variant="destructive">
+                            {word}
+                          </Badge>
+                        ))}
+                      </div>
+                    )}
+                    {review.admin_reply && (
+                      <p className="text-sm italic">Reply: {review.admin_reply}</p>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <div>{review.reviewer_name}</div>
+                    {review.verified_purchase && (
+                      <div className="text-xs text-muted-foreground">Verified purchase</div>
+                    )}
+                    <div className="text-xs text-muted-foreground">
+                      {review.created_at && new Date(review.created_at).toLocaleDateString()}
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant={STATUS_VARIANTS[review.status]}>{review.status}</Badge>
+                  </TableCell>
+                  <TableCell className="text-right space-x-2 whitespace-nowrap">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setStatusMutation.mutate({ ids: [review.id], status: "approved" })}
+                      disabled={review.status === "approved"}
+                    >
+                      <Check className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setStatusMutation.mutate({ ids: [review.id], status: "rejected" })}
+                      disabled={review.status === "rejected"}
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setReplyingTo({ id: review.id, reply: review.admin_reply ?? "" })}
+                    >
+                      <MessageSquare className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={replyingTo !== null} onOpenChange={(open) => !open && setReplyingTo(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Reply to Review</DialogTitle>
+          </DialogHeader>
+          <form
+            className="space-y-4"
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (replyingTo) replyMutation.mutate(replyingTo);
+            }}
+          >
+            <div>
+              <Label>Public reply</Label>
+              <Textarea
+                rows={5}
+                value={replyingTo?.reply ?? ""}
+                onChange={(e) => replyingTo && setReplyingTo({ ...replyingTo, reply: e.target.value })}
+              />
+              <p className="mt-1 text-xs text-muted-foreground">Leave empty to remove the reply.</p>
+            </div>
+            <Button type="submit" className="w-full" disabled={replyMutation.isPending}>
+              Save Reply
+            </Button>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={wordsOpen} onOpenChange={setWordsOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Banned Words</DialogTitle>
+          </DialogHeader>
+          <form
+            className="space-y-4"
+            onSubmit={(e) => {
+              e.preventDefault();
+              const words = wordsText
+                .split(/[,\n]/)
+                .map((word) => word.trim().toLowerCase())
+                .filter(Boolean);
+              saveWordsMutation.mutate([...new Set(words)]);
+            }}
+          >
+            <div>
+              <Label>Words that flag a review</Label>
+              <Textarea rows={6} value={wordsText} onChange={(e) => setWordsText(e.target.value)} />
+              <p className="mt-1 text-xs text-muted-foreground">
+                Separate with commas or new lines. Checked whenever a review is written or edited.
+              </p>
+            </div>
+            <Button type="submit" className="w-full" disabled={saveWordsMutation.isPending}>
+              Save Words
+            </Button>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
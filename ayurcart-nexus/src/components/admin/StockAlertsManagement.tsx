@@ -0,0 +1,104 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/lib/supabase";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+
+interface DemandRow {
+  key: string;
+  productName: string;
+  variantName: string | null;
+  stock: number;
+  waiting: number;
+  notified: number;
+  firstRequested: string | null;
+}
+
+export const StockAlertsManagement = () => {
+  const { data: subscriptions, isLoading } = useQuery({
+    queryKey: ["admin-stock-subscriptions"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("stock_subscriptions")
+        .select("product_id, variant_id, created_at, notified_at, products(name, stock_count), product_variants(name, stock_count)")
+        .order("created_at", { ascending: true });
+
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  // One row per product or size, most wanted first
+  const demand = Object.values(
+    (subscriptions ?? []).reduce<Record<string, DemandRow>>((rows, sub) => {
+      const key = `${sub.product_id}:${sub.variant_id ?? ""}`;
+      const row = (rows[key] ??= {
+        key,
+        productName: sub.products?.name ?? "Deleted product",
+        variantName: sub.product_variants?.name ?? null,
+        stock: sub.product_variants?.stock_count ?? sub.products?.stock_count ?? 0,
+        waiting: 0,
+        notified: 0,
+        firstRequested: null,
+      });
+
+      if (sub.notified_at) {
+        row.notified += 1;
+      } else {
+        row.waiting += 1;
+        row.firstRequested ??= sub.created_at;
+      }
+      return rows;
+    }, {})
+  )
+    .filter((row) => row.waiting > 0)
+    .sort((a, b) => b.waiting - a.waiting);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Back-in-Stock Demand</CardTitle>
+        <p className="text-sm text-muted-foreground">
+          Customers waiting for a restock. Raising stock above zero in Products notifies them automatically.
+        </p>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p>Loading...</p>
+        ) : demand.length === 0 ? (
+          <p className="text-muted-foreground">Nobody is waiting on a restock.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Product</TableHead>
+                <TableHead>Size</TableHead>
+                <TableHead>Stock</TableHead>
+                <TableHead>Waiting</TableHead>
+                <TableHead>Notified before</TableHead>
+                <TableHead>Waiting since</TableHead>
+              </TableRow>
+            </TableHeader>
+
+            <TableBody>
+              {demand.map((row) => (
+                <TableRow key={row.key}>
+                  <TableCell className="font-medium">{row.productName}</TableCell>
+                  <TableCell>{row.variantName ?? "Any"}</TableCell>
+                  <TableCell>
+                    {row.stock === 0 ? <Badge variant="destructive">Out of stock</Badge> : row.stock}
+                  </TableCell>
+                  <TableCell className="font-semibold">{row.waiting}</TableCell>
+                  <TableCell>{row.notified}</TableCell>
+                  <TableCell>
+                    {row.firstRequested && new Date(row.firstRequested).toLocaleDateString()}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
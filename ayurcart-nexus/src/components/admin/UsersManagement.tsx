@@ -96,7 +96,8 @@ export const UsersManagement = () => {
                                   <div className="text-sm space-y-1">
                                     {order.order_items?.map((item: any) => (
                                       <div key={item.id}>
-                                        {item.products?.name} x{item.quantity} - ${item.price}
+                                        {item.products?.name}
+                                        {item.variant_name && ` (${item.variant_name})`} x{item.quantity} - ${item.price}
                                       </div>
                                     ))}
                                   </div>
@@ -1,6 +1,8 @@
 import React, { createContext, useContext, useEffect, useState } from "react";
 import { User, Session } from "@supabase/supabase-js";
+import { useQueryClient } from "@tanstack/react-query";
 import { supabase } from "@/lib/supabase";
+import { mergeGuestCart } from "@/lib/guest-cart";
 
 interface AuthContextType {
   user: User | null;
@@ -17,6 +19,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
   const [user, setUser] = useState<User | null>(null);
   const [session, setSession] = useState<Session | null>(null);
   const [loading, setLoading] = useState(true);
+  const queryClient = useQueryClient();
 
   useEffect(() => {
     const { data: { subscription } } = supabase.auth.onAuthStateChange((event, session) => {
@@ -33,10 +36,20 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     return () => subscription.unsubscribe();
   }, []);
 
+  // A failed merge leaves the guest cart in place rather than failing the sign-in
+  const mergeCart = async () => {
+    try {
+      await mergeGuestCart();
+    } catch {
+      return;
+    }
+    queryClient.invalidateQueries({ queryKey: ["cart"] });
+  };
+
   const signUp = async (email: string, password: string, userData: { name: string; phone: string; address: string }) => {
     const redirectUrl = `${window.location.origin}/`;
     
-    const { error } = await supabase.auth.signUp({
+    const { data, error } = await supabase.auth.signUp({
       email,
       password,
       options: {
@@ -44,11 +57,14 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
         data: userData
       }
     });
+    // Without a session the email still needs confirming; the cart is merged on the first sign-in
+    if (data.session) await mergeCart();
     return { error };
   };
 
   const signIn = async (email: string, password: string) => {
     const { error } = await supabase.auth.signInWithPassword({ email, password });
+    if (!error) await mergeCart();
     return { error };
   };
 
@@ -0,0 +1,46 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/lib/supabase";
+
+// Stock left for the current shopper once other checkouts' reservations are held back
+export function useAvailableStock(productIds: string[]) {
+  return useQuery({
+    queryKey: ["available-stock", productIds],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("product_availability")
+        .select("product_id, available_stock")
+        .in("product_id", productIds);
+
+      if (error) throw error;
+
+      const stock: Record<string, number> = {};
+      data.forEach((row) => {
+        stock[row.product_id] = row.available_stock ?? 0;
+      });
+      return stock;
+    },
+    enabled: productIds.length > 0,
+  });
+}
+
+// Same as useAvailableStock, keyed by variant for products sold in sizes
+export function useAvailableVariantStock(variantIds: string[]) {
+  return useQuery({
+    queryKey: ["available-variant-stock", variantIds],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("variant_availability")
+        .select("variant_id, available_stock")
+        .in("variant_id", variantIds);
+
+      if (error) throw error;
+
+      const stock: Record<string, number> = {};
+      data.forEach((row) => {
+        stock[row.variant_id] = row.available_stock ?? 0;
+      });
+      return stock;
+    },
+    enabled: variantIds.length > 0,
+  });
+}
@@ -0,0 +1,200 @@
+import { useEffect } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/lib/supabase";
+import { useAuth } from "@/contexts/AuthContext";
+import { useMiniCart } from "@/hooks/use-mini-cart";
+import type { Tables } from "@/integrations/supabase/types";
+import {
+  addToGuestCart,
+  fetchGuestCart,
+  GUEST_CART_KEY,
+  removeGuestCartItem,
+  updateGuestCartItem,
+  type CartLine,
+} from "@/lib/guest-cart";
+import { toast } from "sonner";
+
+// A type rather than an interface so a list of them can be sent as Json
+export type CartItemInput = {
+  product_id: string;
+  variant_id: string | null;
+  quantity: number;
+};
+
+// Every cart query lives under ["cart"]; the second part is the customer, or null for a guest
+export const cartQueryKey = (userId: string | null) => ["cart", userId] as const;
+
+export const cartLinePrice = (line: CartLine) => line.product_variants?.price ?? line.products?.price ?? 0;
+
+async function fetchCart(userId: string | null): Promise<CartLine[]> {
+  if (!userId) return fetchGuestCart();
+
+  const { data, error } = await supabase
+    .from("cart_items")
+    .select("*, products (*), product_variants (*)")
+    .eq("user_id", userId)
+    .order("created_at", { ascending: true });
+
+  if (error) throw error;
+  return data;
+}
+
+type CartContext = { previous?: CartLine[] };
+
+// The signed-in customer's cart, or the guest cart in localStorage. Changes show up straight away and are
+// rolled back if the server refuses them.
+export function useCart() {
+  const { user } = useAuth();
+  const { peek } = useMiniCart();
+  const queryClient = useQueryClient();
+  const queryKey = cartQueryKey(user?.id ?? null);
+
+  const { data: items, isLoading } = useQuery({
+    queryKey,
+    queryFn: () => fetchCart(user?.id ?? null),
+  });
+
+  const optimistic = async (update: (lines: CartLine[]) => CartLine[]): Promise<CartContext> => {
+    await queryClient.cancelQueries({ queryKey });
+    const previous = queryClient.getQueryData<CartLine[]>(queryKey);
+    if (previous) queryClient.setQueryData(queryKey, update(previous));
+    return { previous };
+  };
+
+  const rollback = (context: CartContext | undefined) => {
+    if (context?.previous) queryClient.setQueryData(queryKey, context.previous);
+  };
+
+  const settle = () => queryClient.invalidateQueries({ queryKey: ["cart"] });
+
+  // Lines already in the cart go up by the quantity added; new lines appear once the server has them
+  const addMutation = useMutation({
+    mutationFn: async (lines: CartItemInput[]) => {
+      if (!user) return addToGuestCart(lines);
+
+      const { data, error } = await supabase.rpc("add_to_cart", { _items: lines });
+      if (error) throw error;
+      return data;
+    },
+    onMutate: (lines) =>
+      optimistic((cart) =>
+        cart.map((line) => {
+          const added = lines.find((l) => l.product_id === line.product_id && l.variant_id === line.variant_id);
+          return added ? { ...line, quantity: line.quantity + added.quantity } : line;
+        })
+      ),
+    // Lines that weren't added are either out of stock or already in the cart as many times as there is stock
+    onSuccess: (added, lines, context) => {
+      const inCart = lines.filter((l) =>
+        context?.previous?.some((line) => line.product_id === l.product_id && line.variant_id === l.variant_id)
+      );
+
+      if (added === 0 && inCart.length === lines.length) {
+        toast.info(
+          lines.length === 1
+            ? "You already have the maximum available in your cart"
+            : "You already have the maximum available of these in your cart"
+        );
+      } else if (added === 0) {
+        toast.error(lines.length === 1 ? "Sorry, this is out of stock" : "Sorry, these are out of stock");
+      } else if (added < lines.length) {
+        toast.success(
+          inCart.length > 0
+            ? `${added} of ${lines.length} items added. The rest are out of stock or already in your cart.`
+            : `${added} of ${lines.length} items added. The rest are out of stock.`
+        );
+      } else {
+        toast.success(lines.length === 1 ? "Added to cart!" : `${lines.length} items added to cart!`);
+      }
+      if (added > 0) peek();
+    },
+    onError: (err: Error, _, context) => {
+      rollback(context);
+      toast.error(err?.message || "Failed to add to cart");
+    },
+    onSettled: settle,
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, quantity }: { id: string; quantity: number }) => {
+      if (!user) return updateGuestCartItem(id, quantity);
+
+      const { error } = await supabase.from("cart_items").update({ quantity }).eq("id", id);
+      if (error) throw error;
+    },
+    onMutate: ({ id, quantity }) =>
+      optimistic((cart) => cart.map((line) => (line.id === id ? { ...line, quantity } : line))),
+    onError: (err: Error, _, context) => {
+      rollback(context);
+      toast.error(err?.message || "Failed to update quantity");
+    },
+    onSettled: settle,
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async (id: string) => {
+      if (!user) return removeGuestCartItem(id);
+
+      const { error } = await supabase.from("cart_items").delete().eq("id", id);
+      if (error) throw error;
+    },
+    onMutate: (id) => optimistic((cart) => cart.filter((line) => line.id !== id)),
+    onSuccess: () => toast.success("Item removed from cart"),
+    onError: (err: Error, _, context) => {
+      rollback(context);
+      toast.error(err?.message || "Failed to remove item");
+    },
+    onSettled: settle,
+  });
+
+  return {
+    items: items ?? [],
+    isLoading,
+    count: items?.length ?? 0,
+    subtotal: (items ?? []).reduce((sum, line) => sum + cartLinePrice(line) * line.quantity, 0),
+    add: addMutation.mutate,
+    adding: addMutation.isPending,
+    updateQuantity: updateMutation.mutate,
+    remove: removeMutation.mutate,
+  };
+}
+
+// Keeps the cart in step with other tabs and devices: Realtime for customers, storage events for guests.
+// Mounted once for the whole app.
+export function useCartSync() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    const refresh = () => queryClient.invalidateQueries({ queryKey: ["cart"] });
+
+    if (!user) {
+      const onStorage = (e: StorageEvent) => {
+        if (e.key === GUEST_CART_KEY) refresh();
+      };
+      window.addEventListener("storage", onStorage);
+      return () => window.removeEventListener("storage", onStorage);
+    }
+
+    const filter = `user_id=eq.${user.id}`;
+    const channel = supabase
+      .channel(`cart:${user.id}`)
+      .on("postgres_changes", { event: "INSERT", schema: "public", table: "cart_items", filter }, refresh)
+      .on("postgres_changes", { event: "UPDATE", schema: "public", table: "cart_items", filter }, refresh)
+      // Realtime can't filter deletes, so every signed-in tab hears about every removed cart line. They only
+      // carry the line id (cart_items keeps the default replica identity), which is checked against our cart.
+      .on<Tables<"cart_items">>(
+        "postgres_changes",
+        { event: "DELETE", schema: "public", table: "cart_items" },
+        (payload) => {
+          const lines = queryClient.getQueryData<CartLine[]>(cartQueryKey(user.id));
+          if (lines?.some((line) => line.id === payload.old.id)) refresh();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user, queryClient]);
+}
@@ -0,0 +1,100 @@
+import { useSearchParams } from "react-router-dom";
+import { isAllergen, type Allergen } from "@/lib/ingredients";
+
+export type CatalogSort = "newest" | "price_asc" | "price_desc" | "popular";
+
+export type CatalogView = "infinite" | "paged";
+
+export interface CatalogFilters {
+  sort: CatalogSort;
+  minPrice: number | null;
+  maxPrice: number | null;
+  inStock: boolean;
+  ingredient: string; // ingredient slug
+  excludeAllergens: Allergen[];
+  view: CatalogView;
+}
+
+export const SORT_OPTIONS: { value: CatalogSort; label: string }[] = [
+  { value: "newest", label: "Newest" },
+  { value: "popular", label: "Most popular" },
+  { value: "price_asc", label: "Price: low to high" },
+  { value: "price_desc", label: "Price: high to low" },
+];
+
+const parsePrice = (value: string | null) => {
+  if (value === null || value === "") return null;
+  const price = Number(value);
+  return Number.isFinite(price) && price >= 0 ? price : null;
+};
+
+// Catalog filters live in the query string so filtered views can be shared and reloaded
+export function useCatalogFilters() {
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  const sort = searchParams.get("sort") as CatalogSort;
+  const filters: CatalogFilters = {
+    sort: SORT_OPTIONS.some((option) => option.value === sort) ? sort : "newest",
+    minPrice: parsePrice(searchParams.get("min")),
+    maxPrice: parsePrice(searchParams.get("max")),
+    inStock: searchParams.get("in_stock") === "1",
+    ingredient: searchParams.get("ingredient")?.trim() || "",
+    excludeAllergens: (searchParams.get("no_allergens") ?? "").split(",").filter(isAllergen),
+    view: searchParams.get("view") === "paged" ? "paged" : "infinite",
+  };
+
+  const page = Math.max(1, parseInt(searchParams.get("page") || "1") || 1);
+
+  const toParams = (next: CatalogFilters) => {
+    const params = new URLSearchParams();
+
+    if (next.sort !== "newest") params.set("sort", next.sort);
+    if (next.minPrice !== null) params.set("min", String(next.minPrice));
+    if (next.maxPrice !== null) params.set("max", String(next.maxPrice));
+    if (next.inStock) params.set("in_stock", "1");
+    if (next.ingredient) params.set("ingredient", next.ingredient);
+    if (next.excludeAllergens.length > 0) params.set("no_allergens", next.excludeAllergens.join(","));
+    if (next.view === "paged") params.set("view", "paged");
+
+    return params;
+  };
+
+  // Any filter change starts again from the first page
+  const setFilters = (patch: Partial<CatalogFilters>) => {
+    setSearchParams(toParams({ ...filters, ...patch }), { replace: true });
+  };
+
+  const pageParams = (nextPage: number) => {
+    const params = toParams(filters);
+    if (nextPage > 1) params.set("page", String(nextPage));
+    return params;
+  };
+
+  const pageUrl = (nextPage: number) => `?${pageParams(nextPage).toString()}`;
+
+  const setPage = (nextPage: number) => setSearchParams(pageParams(nextPage));
+
+  const clearFilters = () =>
+    setSearchParams(
+      toParams({ ...filters, minPrice: null, maxPrice: null, inStock: false, ingredient: "", excludeAllergens: [] }),
+      { replace: true }
+    );
+
+  const hasActiveFilters =
+    filters.minPrice !== null ||
+    filters.maxPrice !== null ||
+    filters.inStock ||
+    !!filters.ingredient ||
+    filters.excludeAllergens.length > 0;
+
+  return {
+    filters,
+    setFilters,
+    clearFilters,
+    hasActiveFilters,
+    page,
+    setPage,
+    pageUrl,
+    searchParams,
+  };
+}
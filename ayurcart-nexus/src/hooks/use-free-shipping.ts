@@ -0,0 +1,23 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/lib/supabase";
+
+// Order subtotal from which shipping is free, from store_settings; 0 when the store has none
+export function useFreeShippingThreshold() {
+  return useQuery({
+    queryKey: ["store-settings", "free_shipping_threshold"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("store_settings")
+        .select("value")
+        .eq("key", "free_shipping_threshold")
+        .maybeSingle();
+
+      if (error) throw error;
+      return Number(data?.value) || 0;
+    },
+  });
+}
+
+// The shipping line shared by the cart and checkout summaries
+export const shippingLabel = (subtotal: number, threshold: number) =>
+  subtotal >= threshold ? "Free" : `Free over $${threshold.toFixed(2)}`;
@@ -0,0 +1,19 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/lib/supabase";
+
+// Products most often ordered alongside the given ones, from the nightly co-purchase scores
+export function useFrequentlyBoughtTogether(productIds: string[], limit = 4) {
+  return useQuery({
+    queryKey: ["frequently-bought-together", productIds, limit],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .rpc("frequently_bought_together", { _product_ids: productIds, _limit: limit })
+        .select("id, slug, name, price, image_url, stock_count, product_variants(id)");
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: productIds.length > 0,
+    staleTime: 5 * 60_000,
+  });
+}
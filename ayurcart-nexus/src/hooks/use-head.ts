@@ -0,0 +1,85 @@
+import { useEffect } from "react";
+import { useLocation } from "react-router-dom";
+import { absoluteUrl, DEFAULT_DESCRIPTION, DEFAULT_IMAGE, SITE_NAME, type JsonLd } from "@/lib/seo";
+
+interface HeadOptions {
+  // Page title without the site name
+  title?: string;
+  description?: string;
+  image?: string | null;
+  type?: "website" | "product" | "article";
+  jsonLd?: JsonLd | null;
+}
+
+const JSON_LD_ID = "route-json-ld";
+
+const setMeta = (attribute: "name" | "property", key: string, content: string) => {
+  let element = document.head.querySelector<HTMLMetaElement>(`meta[${attribute}="${key}"]`);
+  if (!element) {
+    element = document.createElement("meta");
+    element.setAttribute(attribute, key);
+    document.head.appendChild(element);
+  }
+  element.setAttribute("content", content);
+};
+
+const setCanonical = (href: string) => {
+  let element = document.head.querySelector<HTMLLinkElement>('link[rel="canonical"]');
+  if (!element) {
+    element = document.createElement("link");
+    element.rel = "canonical";
+    document.head.appendChild(element);
+  }
+  element.href = href;
+};
+
+const setJsonLd = (json: string | null) => {
+  document.getElementById(JSON_LD_ID)?.remove();
+  if (!json) return;
+
+  const script = document.createElement("script");
+  script.id = JSON_LD_ID;
+  script.type = "application/ld+json";
+  script.textContent = json;
+  document.head.appendChild(script);
+};
+
+// Title, description, Open Graph/Twitter tags, canonical URL and JSON-LD for the current route.
+// Tags go back to the site defaults when the page unmounts.
+export function useHead({ title, description, image, type = "website", jsonLd }: HeadOptions) {
+  const { pathname } = useLocation();
+  const json = jsonLd ? JSON.stringify(jsonLd) : null;
+
+  useEffect(() => {
+    const apply = (pageTitle: string, pageDescription: string, pageImage: string, pageType: string) => {
+      const url = absoluteUrl(pathname, window.location.origin);
+
+      document.title = pageTitle;
+      setMeta("name", "description", pageDescription);
+      setMeta("property", "og:title", pageTitle);
+      setMeta("property", "og:description", pageDescription);
+      setMeta("property", "og:image", absoluteUrl(pageImage, window.location.origin));
+      setMeta("property", "og:type", pageType);
+      setMeta("property", "og:url", url);
+      setMeta("property", "og:site_name", SITE_NAME);
+      setMeta("name", "twitter:card", "summary_large_image");
+      setMeta("name", "twitter:title", pageTitle);
+      setMeta("name", "twitter:description", pageDescription);
+      setMeta("name", "twitter:image", absoluteUrl(pageImage, window.location.origin));
+      setCanonical(url);
+    };
+
+    apply(
+      title ? `${title} | ${SITE_NAME}` : SITE_NAME,
+      description || DEFAULT_DESCRIPTION,
+      image || DEFAULT_IMAGE,
+      type
+    );
+    setJsonLd(json);
+
+    return () => {
+      apply(SITE_NAME, DEFAULT_DESCRIPTION, DEFAULT_IMAGE, "website");
+      setJsonLd(null);
+    };
+  }, [pathname, title, description, image, type, json]);
+}
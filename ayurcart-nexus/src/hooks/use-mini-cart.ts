@@ -0,0 +1,40 @@
+import { useSyncExternalStore } from "react";
+
+// How long the drawer stays open after an add-to-cart unless the shopper starts using it
+const PEEK_MS = 3000;
+
+// Module-level like use-toast, so add-to-cart anywhere can open the drawer in the Navbar
+let open = false;
+let closeTimer: ReturnType<typeof setTimeout> | undefined;
+const listeners = new Set<() => void>();
+
+function setOpenState(next: boolean) {
+  open = next;
+  listeners.forEach((listener) => listener());
+}
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+const keepOpen = () => clearTimeout(closeTimer);
+
+const setOpen = (next: boolean) => {
+  keepOpen();
+  setOpenState(next);
+};
+
+const peek = () => {
+  setOpen(true);
+  closeTimer = setTimeout(() => setOpenState(false), PEEK_MS);
+};
+
+export function useMiniCart() {
+  return {
+    open: useSyncExternalStore(subscribe, () => open),
+    setOpen,
+    peek,
+    keepOpen,
+  };
+}
@@ -0,0 +1,86 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useNavigate } from "react-router-dom";
+import { supabase } from "@/lib/supabase";
+import { useAuth } from "@/contexts/AuthContext";
+import { toast } from "sonner";
+
+// The signed-in customer's pending back-in-stock requests, plus a toggle for the "Notify me" buttons
+export function useStockSubscriptions() {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+
+  const { data: subscriptions } = useQuery({
+    queryKey: ["stock-subscriptions", user?.id],
+    queryFn: async () => {
+      if (!user) return [];
+      const { data, error } = await supabase
+        .from("stock_subscriptions")
+        .select("product_id, variant_id")
+        .eq("user_id", user.id)
+        .is("notified_at", null);
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!user,
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: async ({
+      productId,
+      variantId,
+      subscribed,
+    }: {
+      productId: string;
+      variantId: string | null;
+      subscribed: boolean;
+    }) => {
+      if (!user) return;
+
+      if (subscribed) {
+        let query = supabase
+          .from("stock_subscriptions")
+          .delete()
+          .eq("user_id", user.id)
+          .eq("product_id", productId);
+        query = variantId ? query.eq("variant_id", variantId) : query.is("variant_id", null);
+
+        const { error } = await query;
+        if (error) throw error;
+        return;
+      }
+
+      // Re-arms a subscription that was already notified for an earlier restock
+      const { error } = await supabase
+        .from("stock_subscriptions")
+        .upsert(
+          { user_id: user.id, product_id: productId, variant_id: variantId, notified_at: null },
+          { onConflict: "user_id,product_id,variant_id" }
+        );
+      if (error) throw error;
+    },
+    onSuccess: (_, { subscribed }) => {
+      queryClient.invalidateQueries({ queryKey: ["stock-subscriptions"] });
+      toast.success(subscribed ? "You won't be notified" : "We'll let you know when it's back in stock");
+    },
+    onError: (err: Error) => {
+      toast.error(err?.message || "Failed to update notification");
+    },
+  });
+
+  const isSubscribed = (productId: string, variantId: string | null = null) =>
+    subscriptions?.some((s) => s.product_id === productId && s.variant_id === variantId) ?? false;
+
+  const toggle = (productId: string, variantId: string | null = null) => {
+    if (!user) {
+      toast.error("Please sign in to get back-in-stock alerts");
+      navigate("/auth");
+      return;
+    }
+
+    toggleMutation.mutate({ productId, variantId, subscribed: isSubscribed(productId, variantId) });
+  };
+
+  return { isSubscribed, toggle, isPending: toggleMutation.isPending };
+}
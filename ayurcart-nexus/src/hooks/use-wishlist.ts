@@ -0,0 +1,65 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useNavigate } from "react-router-dom";
+import { supabase } from "@/lib/supabase";
+import { useAuth } from "@/contexts/AuthContext";
+import { toast } from "sonner";
+
+// Ids of the products on the signed-in customer's wishlist, plus a toggle for the heart buttons
+export function useWishlist() {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+
+  const { data: productIds } = useQuery({
+    queryKey: ["wishlist-ids", user?.id],
+    queryFn: async () => {
+      if (!user) return [];
+      const { data, error } = await supabase
+        .from("wishlist_items")
+        .select("product_id")
+        .eq("user_id", user.id);
+
+      if (error) throw error;
+      return data.map((item) => item.product_id);
+    },
+    enabled: !!user,
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: async ({ productId, saved }: { productId: string; saved: boolean }) => {
+      if (!user) return;
+
+      const { error } = saved
+        ? await supabase
+            .from("wishlist_items")
+            .delete()
+            .eq("user_id", user.id)
+            .eq("product_id", productId)
+        : await supabase.from("wishlist_items").insert({ user_id: user.id, product_id: productId });
+
+      if (error) throw error;
+    },
+    onSuccess: (_, { saved }) => {
+      queryClient.invalidateQueries({ queryKey: ["wishlist-ids"] });
+      queryClient.invalidateQueries({ queryKey: ["wishlist"] });
+      toast.success(saved ? "Removed from wishlist" : "Saved to wishlist");
+    },
+    onError: (err: Error) => {
+      toast.error(err?.message || "Failed to update wishlist");
+    },
+  });
+
+  const isSaved = (productId: string) => productIds?.includes(productId) ?? false;
+
+  const toggle = (productId: string) => {
+    if (!user) {
+      toast.error("Please sign in to save items to your wishlist");
+      navigate("/auth");
+      return;
+    }
+
+    toggleMutation.mutate({ productId, saved: isSaved(productId) });
+  };
+
+  return { isSaved, toggle, isPending: toggleMutation.isPending };
+}
@@ -24,6 +24,7 @@ export type Database = {
     image_url: string | null
     media: Json | null
     is_published: boolean | null
+    slug: string
     created_at: string | null
     updated_at: string | null
   }
@@ -36,6 +37,7 @@ export type Database = {
     image_url?: string | null
     media?: Json | null
     is_published?: boolean | null
+    slug?: string
     created_at?: string | null
     updated_at?: string | null
   }
@@ -48,6 +50,7 @@ export type Database = {
     image_url?: string | null
     media?: Json | null
     is_published?: boolean | null
+    slug?: string
     created_at?: string | null
     updated_at?: string | null
   }
@@ -70,6 +73,7 @@ export type Database = {
           quantity: number
           updated_at: string | null
           user_id: string
+          variant_id: string | null
         }
         Insert: {
           created_at?: string | null
@@ -78,6 +82,7 @@ export type Database = {
           quantity?: number
           updated_at?: string | null
           user_id: string
+          variant_id?: string | null
         }
         Update: {
           created_at?: string | null
@@ -86,6 +91,7 @@ export type Database = {
           quantity?: number
           updated_at?: string | null
           user_id?: string
+          variant_id?: string | null
         }
         Relationships: [
           {
@@ -95,8 +101,125 @@ export type Database = {
             referencedRelation: "products"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "cart_items_variant_id_fkey"
+            columns: ["variant_id"]
+            isOneToOne: false
+            referencedRelation: "product_variants"
+            referencedColumns: ["id"]
+          },
         ]
       }
+      categories: {
+        Row: {
+          created_at: string | null
+          description: string | null
+          id: string
+          name: string
+          parent_id: string | null
+          slug: string
+          sort_order: number
+          updated_at: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          description?: string | null
+          id?: string
+          name: string
+          parent_id?: string | null
+          slug: string
+          sort_order?: number
+          updated_at?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          description?: string | null
+          id?: string
+          name?: string
+          parent_id?: string | null
+          slug?: string
+          sort_order?: number
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "categories_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      ingredients: {
+        Row: {
+          allergens: Database["public"]["Enums"]["allergen"][]
+          created_at: string | null
+          description: string | null
+          id: string
+          latin_name: string | null
+          name: string
+          sanskrit_name: string | null
+          slug: string
+          updated_at: string | null
+        }
+        Insert: {
+          allergens?: Database["public"]["Enums"]["allergen"][]
+          created_at?: string | null
+          description?: string | null
+          id?: string
+          latin_name?: string | null
+          name: string
+          sanskrit_name?: string | null
+          slug: string
+          updated_at?: string | null
+        }
+        Update: {
+          allergens?: Database["public"]["Enums"]["allergen"][]
+          created_at?: string | null
+          description?: string | null
+          id?: string
+          latin_name?: string | null
+          name?: string
+          sanskrit_name?: string | null
+          slug?: string
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      notifications: {
+        Row: {
+          body: string | null
+          created_at: string | null
+          id: string
+          link: string | null
+          read_at: string | null
+          title: string
+          type: string
+          user_id: string
+        }
+        Insert: {
+          body?: string | null
+          created_at?: string | null
+          id?: string
+          link?: string | null
+          read_at?: string | null
+          title: string
+          type: string
+          user_id: string
+        }
+        Update: {
+          body?: string | null
+          created_at?: string | null
+          id?: string
+          link?: string | null
+          read_at?: string | null
+          title?: string
+          type?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       order_items: {
         Row: {
           created_at: string | null
@@ -106,6 +229,8 @@ export type Database = {
           product_id: string
           product_name: string
           quantity: number
+          variant_id: string | null
+          variant_name: string | null
         }
         Insert: {
           created_at?: string | null
@@ -115,6 +240,8 @@ export type Database = {
           product_id: string
           product_name: string
           quantity: number
+          variant_id?: string | null
+          variant_name?: string | null
         }
         Update: {
           created_at?: string | null
@@ -124,6 +251,8 @@ export type Database = {
           product_id?: string
           product_name?: string
           quantity?: number
+          variant_id?: string | null
+          variant_name?: string | null
         }
         Relationships: [
           {
@@ -140,6 +269,13 @@ export type Database = {
             referencedRelation: "products"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "order_items_variant_id_fkey"
+            columns: ["variant_id"]
+            isOneToOne: false
+            referencedRelation: "product_variants"
+            referencedColumns: ["id"]
+          },
         ]
       }
       orders: {
@@ -172,45 +308,340 @@ export type Database = {
         }
         Relationships: []
       }
+      product_categories: {
+        Row: {
+          category_id: string
+          created_at: string | null
+          product_id: string
+        }
+        Insert: {
+          category_id: string
+          created_at?: string | null
+          product_id: string
+        }
+        Update: {
+          category_id?: string
+          created_at?: string | null
+          product_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "product_categories_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "product_categories_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      product_images: {
+        Row: {
+          alt_text: string | null
+          created_at: string | null
+          id: string
+          product_id: string
+          sort_order: number
+          storage_path: string | null
+          url: string
+        }
+        Insert: {
+          alt_text?: string | null
+          created_at?: string | null
+          id?: string
+          product_id: string
+          sort_order?: number
+          storage_path?: string | null
+          url: string
+        }
+        Update: {
+          alt_text?: string | null
+          created_at?: string | null
+          id?: string
+          product_id?: string
+          sort_order?: number
+          storage_path?: string | null
+          url?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "product_images_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      product_ingredients: {
+        Row: {
+          created_at: string | null
+          ingredient_id: string
+          product_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          ingredient_id: string
+          product_id: string
+        }
+        Update: {
+          created_at?: string | null
+          ingredient_id?: string
+          product_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "product_ingredients_ingredient_id_fkey"
+            columns: ["ingredient_id"]
+            isOneToOne: false
+            referencedRelation: "ingredients"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "product_ingredients_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      product_reviews: {
+        Row: {
+          admin_reply: string | null
+          body: string | null
+          created_at: string | null
+          flagged_words: string[]
+          id: string
+          moderated_at: string | null
+          photo_urls: string[]
+          product_id: string
+          rating: number
+          replied_at: string | null
+          reviewer_name: string
+          status: string
+          title: string | null
+          updated_at: string | null
+          user_id: string
+          verified_purchase: boolean
+        }
+        Insert: {
+          admin_reply?: string | null
+          body?: string | null
+          created_at?: string | null
+          flagged_words?: string[]
+          id?: string
+          moderated_at?: string | null
+          photo_urls?: string[]
+          product_id: string
+          rating: number
+          replied_at?: string | null
+          reviewer_name?: string
+          status?: string
+          title?: string | null
+          updated_at?: string | null
+          user_id: string
+          verified_purchase?: boolean
+        }
+        Update: {
+          admin_reply?: string | null
+          body?: string | null
+          created_at?: string | null
+          flagged_words?: string[]
+          id?: string
+          moderated_at?: string | null
+          photo_urls?: string[]
+          product_id?: string
+          rating?: number
+          replied_at?: string | null
+          reviewer_name?: string
+          status?: string
+          title?: string | null
+          updated_at?: string | null
+          user_id?: string
+          verified_purchase?: boolean
+        }
+        Relationships: [
+          {
+            foreignKeyName: "product_reviews_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      product_revisions: {
+        Row: {
+          changed_by: string | null
+          created_at: string
+          id: string
+          new_values: Json
+          old_values: Json
+          product_id: string
+          variant_id: string | null
+          variant_name: string | null
+        }
+        Insert: {
+          changed_by?: string | null
+          created_at?: string
+          id?: string
+          new_values: Json
+          old_values: Json
+          product_id: string
+          variant_id?: string | null
+          variant_name?: string | null
+        }
+        Update: {
+          changed_by?: string | null
+          created_at?: string
+          id?: string
+          new_values?: Json
+          old_values?: Json
+          product_id?: string
+          variant_id?: string | null
+          variant_name?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "product_revisions_changed_by_fkey"
+            columns: ["changed_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "product_revisions_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "product_revisions_variant_id_fkey"
+            columns: ["variant_id"]
+            isOneToOne: false
+            referencedRelation: "product_variants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      product_variants: {
+        Row: {
+          created_at: string | null
+          id: string
+          is_active: boolean
+          name: string
+          price: number
+          product_id: string
+          sku: string
+          sort_order: number
+          stock_count: number
+          updated_at: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          id?: string
+          is_active?: boolean
+          name: string
+          price: number
+          product_id: string
+          sku: string
+          sort_order?: number
+          stock_count?: number
+          updated_at?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          id?: string
+          is_active?: boolean
+          name?: string
+          price?: number
+          product_id?: string
+          sku?: string
+          sort_order?: number
+          stock_count?: number
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "product_variants_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       products: {
         Row: {
+          allergens: Database["public"]["Enums"]["allergen"][]
+          archived_at: string | null
+          average_rating: number | null
           benefits: string | null
           created_at: string | null
           description: string | null
+          doshas: Database["public"]["Enums"]["dosha"][]
           id: string
           image_url: string | null
           ingredients: string | null
           is_active: boolean | null
           name: string
           price: number
+          review_count: number
+          search_vector: unknown
+          slug: string
+          sold_count: number
           stock_count: number
           updated_at: string | null
           usage_instructions: string | null
         }
         Insert: {
+          allergens?: Database["public"]["Enums"]["allergen"][]
+          archived_at?: string | null
+          average_rating?: number | null
           benefits?: string | null
           created_at?: string | null
           description?: string | null
+          doshas?: Database["public"]["Enums"]["dosha"][]
           id?: string
           image_url?: string | null
           ingredients?: string | null
           is_active?: boolean | null
           name: string
           price: number
+          review_count?: number
+          search_vector?: never
+          slug?: string
+          sold_count?: number
           stock_count?: number
           updated_at?: string | null
           usage_instructions?: string | null
         }
         Update: {
+          allergens?: Database["public"]["Enums"]["allergen"][]
+          archived_at?: string | null
+          average_rating?: number | null
           benefits?: string | null
           created_at?: string | null
           description?: string | null
+          doshas?: Database["public"]["Enums"]["dosha"][]
           id?: string
           image_url?: string | null
           ingredients?: string | null
           is_active?: boolean | null
           name?: string
           price?: number
+          review_count?: number
+          search_vector?: never
+          slug?: string
+          sold_count?: number
           stock_count?: number
           updated_at?: string | null
           usage_instructions?: string | null
@@ -221,6 +652,9 @@ export type Database = {
         Row: {
           address: string | null
           created_at: string | null
+          dosha: Database["public"]["Enums"]["dosha"] | null
+          dosha_assessed_at: string | null
+          dosha_scores: Json | null
           id: string
           name: string
           phone: string | null
@@ -229,6 +663,9 @@ export type Database = {
         Insert: {
           address?: string | null
           created_at?: string | null
+          dosha?: Database["public"]["Enums"]["dosha"] | null
+          dosha_assessed_at?: string | null
+          dosha_scores?: Json | null
           id: string
           name: string
           phone?: string | null
@@ -237,6 +674,9 @@ export type Database = {
         Update: {
           address?: string | null
           created_at?: string | null
+          dosha?: Database["public"]["Enums"]["dosha"] | null
+          dosha_assessed_at?: string | null
+          dosha_scores?: Json | null
           id?: string
           name?: string
           phone?: string | null
@@ -244,6 +684,111 @@ export type Database = {
         }
         Relationships: []
       }
+      stock_reservations: {
+        Row: {
+          created_at: string | null
+          expires_at: string
+          id: string
+          product_id: string
+          quantity: number
+          user_id: string
+          variant_id: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          expires_at: string
+          id?: string
+          product_id: string
+          quantity: number
+          user_id: string
+          variant_id?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          expires_at?: string
+          id?: string
+          product_id?: string
+          quantity?: number
+          user_id?: string
+          variant_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "stock_reservations_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_reservations_variant_id_fkey"
+            columns: ["variant_id"]
+            isOneToOne: false
+            referencedRelation: "product_variants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      stock_subscriptions: {
+        Row: {
+          created_at: string | null
+          id: string
+          notified_at: string | null
+          product_id: string
+          user_id: string
+          variant_id: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          id?: string
+          notified_at?: string | null
+          product_id: string
+          user_id: string
+          variant_id?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          id?: string
+          notified_at?: string | null
+          product_id?: string
+          user_id?: string
+          variant_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "stock_subscriptions_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_subscriptions_variant_id_fkey"
+            columns: ["variant_id"]
+            isOneToOne: false
+            referencedRelation: "product_variants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      store_settings: {
+        Row: {
+          key: string
+          updated_at: string | null
+          value: Json
+        }
+        Insert: {
+          key: string
+          updated_at?: string | null
+          value: Json
+        }
+        Update: {
+          key?: string
+          updated_at?: string | null
+          value?: Json
+        }
+        Relationships: []
+      }
       user_roles: {
         Row: {
           created_at: string | null
@@ -265,11 +810,157 @@ export type Database = {
         }
         Relationships: []
       }
+      wishlist_items: {
+        Row: {
+          created_at: string | null
+          id: string
+          product_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          id?: string
+          product_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string | null
+          id?: string
+          product_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "wishlist_items_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      wishlist_shares: {
+        Row: {
+          created_at: string | null
+          token: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          token?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string | null
+          token?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
-      [_ in never]: never
+      product_co_purchases: {
+        Row: {
+          order_count: number | null
+          product_id: string | null
+          related_product_id: string | null
+          score: number | null
+        }
+        Relationships: []
+      }
+      product_availability: {
+        Row: {
+          available_stock: number | null
+          product_id: string | null
+        }
+        Relationships: []
+      }
+      variant_availability: {
+        Row: {
+          available_stock: number | null
+          product_id: string | null
+          variant_id: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "product_variants_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Functions: {
+      add_to_cart: {
+        Args: { _items: Json }
+        Returns: number
+      }
+      bulk_update_products: {
+        Args: { _patches: Json }
+        Returns: string[]
+      }
+      find_banned_words: {
+        Args: { _text: string }
+        Returns: string[]
+      }
+      find_cart_item_missing_variant: {
+        Args: { _user_id: string }
+        Returns: string
+      }
+      find_orphaned_media: {
+        Args: never
+        Returns: {
+          bucket_id: string
+          created_at: string
+          name: string
+          size: number
+        }[]
+      }
+      find_unavailable_cart_item: {
+        Args: { _user_id: string }
+        Returns: string
+      }
+      frequently_bought_together: {
+        Args: { _limit?: number; _product_ids: string[] }
+        Returns: {
+          allergens: Database["public"]["Enums"]["allergen"][]
+          archived_at: string | null
+          average_rating: number | null
+          benefits: string | null
+          created_at: string | null
+          description: string | null
+          doshas: Database["public"]["Enums"]["dosha"][]
+          id: string
+          image_url: string | null
+          ingredients: string | null
+          is_active: boolean | null
+          name: string
+          price: number
+          review_count: number
+          search_vector: unknown
+          slug: string
+          sold_count: number
+          stock_count: number
+          updated_at: string | null
+          usage_instructions: string | null
+        }[]
+        SetofOptions: {
+          from: "*"
+          to: "products"
+          isOneToOne: false
+          isSetofReturn: true
+        }
+      }
+      has_purchased: {
+        Args: { _product_id: string }
+        Returns: boolean
+      }
+      has_purchased_product: {
+        Args: { _product_id: string; _user_id: string }
+        Returns: boolean
+      }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -277,9 +968,121 @@ export type Database = {
         }
         Returns: boolean
       }
+      import_products: {
+        Args: { _products: Json }
+        Returns: number
+      }
+      lock_cart_stock: {
+        Args: { _user_id: string }
+        Returns: boolean
+      }
+      place_order: {
+        Args: never
+        Returns: {
+          created_at: string | null
+          delivery_status: string
+          id: string
+          payment_status: string
+          total_amount: number
+          updated_at: string | null
+          user_id: string
+        }
+      }
+      refresh_product_allergens: {
+        Args: { _product_id: string }
+        Returns: undefined
+      }
+      reserve_cart_stock: {
+        Args: never
+        Returns: string
+      }
+      revert_product_revision: {
+        Args: { _revision_id: string }
+        Returns: undefined
+      }
+      search_products: {
+        Args: { search_query: string }
+        Returns: {
+          allergens: Database["public"]["Enums"]["allergen"][]
+          archived_at: string | null
+          average_rating: number | null
+          benefits: string | null
+          created_at: string | null
+          description: string | null
+          doshas: Database["public"]["Enums"]["dosha"][]
+          id: string
+          image_url: string | null
+          ingredients: string | null
+          is_active: boolean | null
+          name: string
+          price: number
+          review_count: number
+          search_vector: unknown
+          slug: string
+          sold_count: number
+          stock_count: number
+          updated_at: string | null
+          usage_instructions: string | null
+        }[]
+        SetofOptions: {
+          from: "*"
+          to: "products"
+          isOneToOne: false
+          isSetofReturn: true
+        }
+      }
+      shared_wishlist_owner: {
+        Args: { _token: string }
+        Returns: string
+      }
+      shared_wishlist_products: {
+        Args: { _token: string }
+        Returns: {
+          allergens: Database["public"]["Enums"]["allergen"][]
+          archived_at: string | null
+          average_rating: number | null
+          benefits: string | null
+          created_at: string | null
+          description: string | null
+          doshas: Database["public"]["Enums"]["dosha"][]
+          id: string
+          image_url: string | null
+          ingredients: string | null
+          is_active: boolean | null
+          name: string
+          price: number
+          review_count: number
+          search_vector: unknown
+          slug: string
+          sold_count: number
+          stock_count: number
+          updated_at: string | null
+          usage_instructions: string | null
+        }[]
+        SetofOptions: {
+          from: "*"
+          to: "products"
+          isOneToOne: false
+          isSetofReturn: true
+        }
+      }
+      slugify: {
+        Args: { _text: string }
+        Returns: string
+      }
     }
     Enums: {
+      allergen:
+        | "tree_nuts"
+        | "peanuts"
+        | "sesame"
+        | "milk"
+        | "gluten"
+        | "soy"
+        | "mustard"
+        | "bee_products"
       app_role: "admin" | "user"
+      dosha: "vata" | "pitta" | "kapha"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -407,7 +1210,18 @@ export type CompositeTypes<
 export const Constants = {
   public: {
     Enums: {
+      allergen: [
+        "tree_nuts",
+        "peanuts",
+        "sesame",
+        "milk",
+        "gluten",
+        "soy",
+        "mustard",
+        "bee_products",
+      ],
       app_role: ["admin", "user"],
+      dosha: ["vata", "pitta", "kapha"],
     },
   },
 } as const
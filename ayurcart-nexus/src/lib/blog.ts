@@ -0,0 +1,19 @@
+import type { Json } from "@/integrations/supabase/types";
+
+export type BlogMediaItem = {
+  type: "image" | "video" | "audio";
+  url: string;
+};
+
+// Older posts stored media as a JSON string rather than a JSON array
+export const parseBlogMedia = (media: Json | null): BlogMediaItem[] => {
+  try {
+    const value = typeof media === "string" ? JSON.parse(media) : media;
+    return Array.isArray(value) ? (value as BlogMediaItem[]) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const blogExcerpt = (blog: { excerpt: string | null; content: string }) =>
+  blog.excerpt || blog.content.substring(0, 150) + "...";
@@ -0,0 +1,190 @@
+import type { Category } from "@/lib/categories";
+import type { CatalogProduct } from "@/lib/product-import";
+
+export type BulkAction =
+  | { type: "activate" }
+  | { type: "deactivate" }
+  | { type: "price"; mode: "percent" | "fixed"; amount: number }
+  | { type: "stock"; value: number }
+  | { type: "category"; categoryId: string }
+  | { type: "archive" };
+
+// Everything a bulk action can touch. Types rather than interfaces so they can be sent as Json.
+export type ProductSnapshot = {
+  id: string;
+  is_active: boolean;
+  archived_at: string | null;
+  price: number;
+  stock_count: number;
+  category_ids: string[];
+  variants: VariantSnapshot[];
+};
+
+export type VariantSnapshot = {
+  id: string;
+  price: number;
+  stock_count: number;
+  is_active: boolean;
+};
+
+type ProductFields = Pick<ProductSnapshot, "is_active" | "archived_at" | "price" | "stock_count">;
+type VariantFields = Omit<VariantSnapshot, "id">;
+
+// What bulk_update_products writes: only the changed columns, plus the values they must still
+// hold. Products whose rows no longer match are skipped, so an undo never clobbers newer edits.
+export type ProductPatch = {
+  id: string;
+  expected: Partial<ProductFields>;
+  values: Partial<ProductFields>;
+  variants: VariantPatch[];
+  add_category_ids: string[];
+  remove_category_ids: string[];
+};
+
+export type VariantPatch = {
+  id: string;
+  expected: Partial<VariantFields>;
+  values: Partial<VariantFields>;
+};
+
+export interface BulkChange {
+  product: CatalogProduct;
+  before: ProductSnapshot;
+  after: ProductSnapshot;
+  changed: boolean;
+}
+
+export const BULK_ACTION_LABELS: Record<BulkAction["type"], string> = {
+  activate: "Activate",
+  deactivate: "Deactivate",
+  price: "Adjust price",
+  stock: "Set stock",
+  category: "Assign category",
+  archive: "Archive",
+};
+
+export const BULK_ACTIONS = Object.keys(BULK_ACTION_LABELS) as BulkAction["type"][];
+
+const roundPrice = (price: number) => Math.max(0, Math.round(price * 100) / 100);
+
+export function snapshotProduct(product: CatalogProduct): ProductSnapshot {
+  return {
+    id: product.id,
+    is_active: !!product.is_active,
+    archived_at: product.archived_at,
+    price: product.price,
+    stock_count: product.stock_count,
+    category_ids: product.product_categories.map((pc) => pc.category_id),
+    variants: product.product_variants.map((v) => ({
+      id: v.id,
+      price: v.price,
+      stock_count: v.stock_count,
+      is_active: v.is_active,
+    })),
+  };
+}
+
+// Same rule as the product form: with active sizes, the product shows the cheapest one and their total stock
+function withVariantTotals(snapshot: ProductSnapshot): ProductSnapshot {
+  const active = snapshot.variants.filter((v) => v.is_active);
+  if (active.length === 0) return snapshot;
+
+  return {
+    ...snapshot,
+    price: Math.min(...active.map((v) => v.price)),
+    stock_count: active.reduce((sum, v) => sum + v.stock_count, 0),
+  };
+}
+
+function applyAction(before: ProductSnapshot, action: BulkAction): ProductSnapshot {
+  switch (action.type) {
+    case "activate":
+      // Archived products have to be restored one by one
+      return before.archived_at ? before : { ...before, is_active: true };
+    case "deactivate":
+      return { ...before, is_active: false };
+    case "archive":
+      return before.archived_at ? before : { ...before, is_active: false, archived_at: new Date().toISOString() };
+    case "price": {
+      const adjust = (price: number) =>
+        roundPrice(action.mode === "percent" ? price * (1 + action.amount / 100) : price + action.amount);
+      return withVariantTotals({
+        ...before,
+        price: adjust(before.price),
+        variants: before.variants.map((v) => ({ ...v, price: adjust(v.price) })),
+      });
+    }
+    case "stock":
+      return withVariantTotals({
+        ...before,
+        stock_count: action.value,
+        variants: before.variants.map((v) => ({ ...v, stock_count: action.value })),
+      });
+    case "category":
+      return before.category_ids.includes(action.categoryId)
+        ? before
+        : { ...before, category_ids: [...before.category_ids, action.categoryId] };
+  }
+}
+
+export function planBulkAction(products: CatalogProduct[], action: BulkAction): BulkChange[] {
+  return products.map((product) => {
+    const before = snapshotProduct(product);
+    const after = applyAction(before, action);
+    return { product, before, after, changed: JSON.stringify(before) !== JSON.stringify(after) };
+  });
+}
+
+function diffFields<T extends object>(from: T, to: T, keys: (keyof T)[]) {
+  const expected: Partial<T> = {};
+  const values: Partial<T> = {};
+  for (const key of keys) {
+    if (from[key] === to[key]) continue;
+    expected[key] = from[key];
+    values[key] = to[key];
+  }
+  return { expected, values };
+}
+
+// Patch that takes a product from one snapshot to the other. With active sizes the product's
+// price and stock follow its variants (sync_product_from_variants), so only the sizes are written.
+export function diffSnapshots(from: ProductSnapshot, to: ProductSnapshot): ProductPatch {
+  const hasSizes = from.variants.some((v) => v.is_active);
+  const productKeys: (keyof ProductFields)[] = hasSizes
+    ? ["is_active", "archived_at"]
+    : ["is_active", "archived_at", "price", "stock_count"];
+
+  return {
+    id: from.id,
+    ...diffFields<ProductFields>(from, to, productKeys),
+    variants: from.variants
+      .map((v, i) => ({
+        id: v.id,
+        ...diffFields<VariantFields>(v, to.variants[i], ["price", "stock_count", "is_active"]),
+      }))
+      .filter((v) => Object.keys(v.values).length > 0),
+    add_category_ids: to.category_ids.filter((id) => !from.category_ids.includes(id)),
+    remove_category_ids: from.category_ids.filter((id) => !to.category_ids.includes(id)),
+  };
+}
+
+// Short "before → after" text for the preview table
+export function describeChange({ before, after }: BulkChange, categories: Category[]): string {
+  const parts: string[] = [];
+  const status = (s: ProductSnapshot) => (s.archived_at ? "archived" : s.is_active ? "active" : "inactive");
+
+  if (status(before) !== status(after)) parts.push(`${status(before)} → ${status(after)}`);
+  if (before.price !== after.price) parts.push(`$${before.price.toFixed(2)} → $${after.price.toFixed(2)}`);
+  if (before.stock_count !== after.stock_count) parts.push(`stock ${before.stock_count} → ${after.stock_count}`);
+
+  const added = after.category_ids.filter((id) => !before.category_ids.includes(id));
+  if (added.length > 0) {
+    const names = categories.filter((c) => added.includes(c.id)).map((c) => c.name);
+    parts.push(`+ ${names.join(", ")}`);
+  }
+
+  const sizes = after.variants.filter((v, i) => JSON.stringify(v) !== JSON.stringify(before.variants[i])).length;
+  if (sizes > 0) parts.push(`${sizes} ${sizes === 1 ? "size" : "sizes"}`);
+
+  return parts.join(" · ");
+}
@@ -0,0 +1,51 @@
+import type { Tables } from "@/integrations/supabase/types";
+
+export type Category = Tables<"categories">;
+
+// Walks parent links from the category up to the root, returned root-first
+export function getCategoryTrail(categories: Category[], categoryId: string) {
+  const byId = new Map(categories.map((c) => [c.id, c]));
+  const trail: Category[] = [];
+  let current = byId.get(categoryId);
+
+  while (current && !trail.includes(current)) {
+    trail.unshift(current);
+    current = current.parent_id ? byId.get(current.parent_id) : undefined;
+  }
+
+  return trail;
+}
+
+// The category itself plus every category nested beneath it
+export function getDescendantIds(categories: Category[], categoryId: string) {
+  const ids = [categoryId];
+
+  for (let i = 0; i < ids.length; i++) {
+    categories.forEach((c) => {
+      if (c.parent_id === ids[i] && !ids.includes(c.id)) ids.push(c.id);
+    });
+  }
+
+  return ids;
+}
+
+export function getChildren(categories: Category[], parentId: string | null) {
+  return categories
+    .filter((c) => c.parent_id === parentId)
+    .sort((a, b) => a.sort_order - b.sort_order || a.name.localeCompare(b.name));
+}
+
+// Depth-first list of the tree, used for indented admin tables and selects
+export function flattenCategoryTree(categories: Category[]) {
+  const result: { category: Category; depth: number }[] = [];
+
+  const visit = (parentId: string | null, depth: number) => {
+    getChildren(categories, parentId).forEach((category) => {
+      result.push({ category, depth });
+      visit(category.id, depth + 1);
+    });
+  };
+
+  visit(null, 0);
+  return result;
+}
@@ -0,0 +1,143 @@
+import { Constants, type Enums } from "@/integrations/supabase/types";
+
+export type Dosha = Enums<"dosha">;
+export type DoshaScores = Record<Dosha, number>;
+
+export const DOSHAS = Constants.public.Enums.dosha;
+
+export const DOSHA_INFO: Record<Dosha, { label: string; elements: string; description: string }> = {
+  vata: {
+    label: "Vata",
+    elements: "Air & Space",
+    description:
+      "Creative, quick and lively. When out of balance Vata shows up as dryness, restlessness and irregular digestion, so warming, grounding and nourishing products help most.",
+  },
+  pitta: {
+    label: "Pitta",
+    elements: "Fire & Water",
+    description:
+      "Focused, driven and sharp. Too much Pitta brings heat, irritability and inflammation, so cooling and soothing products help most.",
+  },
+  kapha: {
+    label: "Kapha",
+    elements: "Earth & Water",
+    description:
+      "Calm, steady and strong. Excess Kapha feels heavy and sluggish, so light, warming and stimulating products help most.",
+  },
+};
+
+export interface DoshaQuestion {
+  id: string;
+  question: string;
+  options: { dosha: Dosha; label: string }[];
+}
+
+export const DOSHA_QUESTIONS: DoshaQuestion[] = [
+  {
+    id: "frame",
+    question: "How would you describe your body frame?",
+    options: [
+      { dosha: "vata", label: "Slim and light, I find it hard to gain weight" },
+      { dosha: "pitta", label: "Medium and athletic" },
+      { dosha: "kapha", label: "Broad and solid, I gain weight easily" },
+    ],
+  },
+  {
+    id: "skin",
+    question: "What is your skin usually like?",
+    options: [
+      { dosha: "vata", label: "Dry, thin or rough" },
+      { dosha: "pitta", label: "Warm, sensitive, prone to redness" },
+      { dosha: "kapha", label: "Smooth, thick and oily" },
+    ],
+  },
+  {
+    id: "hair",
+    question: "How is your hair?",
+    options: [
+      { dosha: "vata", label: "Dry, frizzy or brittle" },
+      { dosha: "pitta", label: "Fine, straight, early greying or thinning" },
+      { dosha: "kapha", label: "Thick, wavy and lustrous" },
+    ],
+  },
+  {
+    id: "appetite",
+    question: "How is your appetite?",
+    options: [
+      { dosha: "vata", label: "Irregular, I sometimes forget to eat" },
+      { dosha: "pitta", label: "Strong, I get irritable if I miss a meal" },
+      { dosha: "kapha", label: "Steady, I can skip meals easily" },
+    ],
+  },
+  {
+    id: "digestion",
+    question: "How would you describe your digestion?",
+    options: [
+      { dosha: "vata", label: "Variable, prone to gas and bloating" },
+      { dosha: "pitta", label: "Quick, prone to acidity or heartburn" },
+      { dosha: "kapha", label: "Slow, I feel heavy after meals" },
+    ],
+  },
+  {
+    id: "climate",
+    question: "Which weather do you find hardest?",
+    options: [
+      { dosha: "vata", label: "Cold, dry and windy" },
+      { dosha: "pitta", label: "Hot and sunny" },
+      { dosha: "kapha", label: "Cold, damp and cloudy" },
+    ],
+  },
+  {
+    id: "sleep",
+    question: "How do you sleep?",
+    options: [
+      { dosha: "vata", label: "Lightly, I wake easily" },
+      { dosha: "pitta", label: "Moderately, but I wake up if I am hot" },
+      { dosha: "kapha", label: "Deeply and for a long time" },
+    ],
+  },
+  {
+    id: "energy",
+    question: "How is your energy through the day?",
+    options: [
+      { dosha: "vata", label: "Comes in bursts, then I crash" },
+      { dosha: "pitta", label: "Strong and purposeful" },
+      { dosha: "kapha", label: "Slow to start but steady" },
+    ],
+  },
+  {
+    id: "stress",
+    question: "Under stress, you tend to become...",
+    options: [
+      { dosha: "vata", label: "Anxious or worried" },
+      { dosha: "pitta", label: "Irritable or impatient" },
+      { dosha: "kapha", label: "Withdrawn or unmotivated" },
+    ],
+  },
+  {
+    id: "mind",
+    question: "How does your mind work?",
+    options: [
+      { dosha: "vata", label: "Quick to learn, quick to forget" },
+      { dosha: "pitta", label: "Sharp and focused, good memory" },
+      { dosha: "kapha", label: "Slow to learn, but I never forget" },
+    ],
+  },
+];
+
+// Percentage of answers per dosha; ties go to the dosha listed first
+export const scoreDoshaQuiz = (answers: Record<string, Dosha>) => {
+  const counts: DoshaScores = { vata: 0, pitta: 0, kapha: 0 };
+  Object.values(answers).forEach((dosha) => {
+    counts[dosha] += 1;
+  });
+
+  const total = Object.values(counts).reduce((sum, count) => sum + count, 0) || 1;
+  const scores = Object.fromEntries(
+    DOSHAS.map((dosha) => [dosha, Math.round((counts[dosha] / total) * 100)])
+  ) as DoshaScores;
+
+  const dominant = DOSHAS.reduce((best, dosha) => (counts[dosha] > counts[best] ? dosha : best));
+
+  return { scores, dominant };
+};
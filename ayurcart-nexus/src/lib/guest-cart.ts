@@ -0,0 +1,149 @@
+import { supabase } from "@/lib/supabase";
+import type { Tables } from "@/integrations/supabase/types";
+
+// Signed-out shoppers keep their cart in localStorage, in the same shape as cart_items minus the owner
+export type GuestCartItem = Omit<Tables<"cart_items">, "user_id">;
+
+// A cart row with its product and size, as the cart page shows it for guests and customers alike
+export type CartLine = GuestCartItem & {
+  products: Tables<"products"> | null;
+  product_variants: Tables<"product_variants"> | null;
+};
+
+export const GUEST_CART_KEY = "guest-cart";
+
+export function readGuestCart(): GuestCartItem[] {
+  try {
+    const items = JSON.parse(localStorage.getItem(GUEST_CART_KEY) ?? "[]");
+    return Array.isArray(items) ? items : [];
+  } catch {
+    return [];
+  }
+}
+
+function writeGuestCart(items: GuestCartItem[]) {
+  if (items.length > 0) localStorage.setItem(GUEST_CART_KEY, JSON.stringify(items));
+  else localStorage.removeItem(GUEST_CART_KEY);
+}
+
+type GuestCartInput = Pick<GuestCartItem, "product_id" | "variant_id" | "quantity">;
+
+// Stock a guest can still buy, from the same reservation-aware views the cart page uses. Archived and
+// switched-off products and sizes aren't in the views, so they count as sold out.
+async function fetchAvailableStock(items: Pick<GuestCartItem, "product_id" | "variant_id">[]) {
+  const [{ data: products, error }, { data: variants, error: variantsError }] = await Promise.all([
+    supabase
+      .from("product_availability")
+      .select("product_id, available_stock")
+      .in("product_id", items.flatMap((item) => (item.variant_id ? [] : [item.product_id]))),
+    supabase
+      .from("variant_availability")
+      .select("variant_id, available_stock")
+      .in("variant_id", items.flatMap((item) => (item.variant_id ? [item.variant_id] : []))),
+  ]);
+
+  if (error) throw error;
+  if (variantsError) throw variantsError;
+
+  return (item: Pick<GuestCartItem, "product_id" | "variant_id">) =>
+    (item.variant_id
+      ? variants.find((v) => v.variant_id === item.variant_id)?.available_stock
+      : products.find((p) => p.product_id === item.product_id)?.available_stock) ?? 0;
+}
+
+// Same rules as add_to_cart: lines already in the cart are raised by the quantity added, every line is
+// capped at the stock available and sold-out items are skipped. Returns the number of lines added or raised.
+export async function addToGuestCart(lines: GuestCartInput[]): Promise<number> {
+  const available = await fetchAvailableStock(lines);
+  const items = readGuestCart();
+  const now = new Date().toISOString();
+  const changed = new Set<string>();
+
+  for (const line of lines) {
+    const cap = available(line);
+    const existing = items.find((item) => item.product_id === line.product_id && item.variant_id === line.variant_id);
+
+    if (line.quantity <= 0 || (existing?.quantity ?? 0) >= cap) continue;
+
+    if (existing) {
+      existing.quantity = Math.min(existing.quantity + line.quantity, cap);
+      existing.updated_at = now;
+      changed.add(existing.id);
+    } else {
+      const item = {
+        id: crypto.randomUUID(),
+        product_id: line.product_id,
+        variant_id: line.variant_id,
+        quantity: Math.min(line.quantity, cap),
+        created_at: now,
+        updated_at: now,
+      };
+      items.push(item);
+      changed.add(item.id);
+    }
+  }
+
+  writeGuestCart(items);
+  return changed.size;
+}
+
+// Raising a line is capped at the stock available; lowering it always goes through
+export async function updateGuestCartItem(id: string, quantity: number) {
+  const item = readGuestCart().find((line) => line.id === id);
+  if (!item) return;
+
+  if (quantity > item.quantity) {
+    const cap = (await fetchAvailableStock([item]))(item);
+    quantity = Math.max(item.quantity, Math.min(quantity, cap));
+  }
+
+  writeGuestCart(
+    readGuestCart().map((line) =>
+      line.id === id ? { ...line, quantity, updated_at: new Date().toISOString() } : line
+    )
+  );
+}
+
+export function removeGuestCartItem(id: string) {
+  writeGuestCart(readGuestCart().filter((item) => item.id !== id));
+}
+
+// Products and sizes that were archived or switched off since they were added are dropped
+export async function fetchGuestCart(): Promise<CartLine[]> {
+  const items = readGuestCart();
+  if (items.length === 0) return [];
+
+  const variantIds = items.flatMap((item) => (item.variant_id ? [item.variant_id] : []));
+  const [{ data: products, error }, { data: variants, error: variantsError }] = await Promise.all([
+    supabase
+      .from("products")
+      .select("*")
+      .in("id", items.map((item) => item.product_id))
+      .eq("is_active", true),
+    supabase.from("product_variants").select("*").in("id", variantIds).eq("is_active", true),
+  ]);
+
+  if (error) throw error;
+  if (variantsError) throw variantsError;
+
+  return items.flatMap((item) => {
+    const product = products.find((p) => p.id === item.product_id);
+    const variant = variants.find((v) => v.id === item.variant_id) ?? null;
+    if (!product || (item.variant_id && !variant)) return [];
+    return [{ ...item, products: product, product_variants: variant }];
+  });
+}
+
+// Moves the guest cart into the signed-in customer's cart. It is only cleared once the server has it,
+// so a failed merge is retried on the next sign-in.
+export async function mergeGuestCart() {
+  const items = readGuestCart();
+  if (items.length === 0) return;
+
+  const { error } = await supabase.rpc("add_to_cart", {
+    _items: items.map(({ product_id, variant_id, quantity }) => ({ product_id, variant_id, quantity })),
+  });
+  if (error) throw error;
+
+  writeGuestCart([]);
+}
@@ -0,0 +1,111 @@
+import { supabase } from "@/lib/supabase";
+
+// Every upload is stored at each of these widths (never wider than the original) as <id>-<width>w.webp,
+// so the other sizes of an image can always be worked out from the URL of the largest one
+export const IMAGE_WIDTHS = [400, 800, 1600];
+
+const WEBP_QUALITY = 0.82;
+const SIZE_SUFFIX = /-(\d+)w\.(webp|jpg)$/;
+
+// A type rather than an interface so it can be sent as Json
+export type UploadedImage = {
+  url: string;
+  storage_path: string;
+};
+
+const sizeWidths = (largest: number) => [...IMAGE_WIDTHS.filter((w) => w < largest), largest];
+
+const encode = (bitmap: ImageBitmap, width: number) =>
+  new Promise<Blob>((resolve, reject) => {
+    const canvas = document.createElement("canvas");
+    canvas.width = width;
+    canvas.height = Math.round((bitmap.height * width) / bitmap.width);
+
+    const context = canvas.getContext("2d");
+    if (!context) return reject(new Error("Could not process the image"));
+    context.imageSmoothingQuality = "high";
+    context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+
+    // Browsers without a WebP encoder hand back a PNG; JPEG is far smaller for photos
+    canvas.toBlob(
+      (webp) => {
+        if (webp?.type === "image/webp") return resolve(webp);
+        canvas.toBlob(
+          (jpeg) => (jpeg ? resolve(jpeg) : reject(new Error("Could not process the image"))),
+          "image/jpeg",
+          WEBP_QUALITY
+        );
+      },
+      "image/webp",
+      WEBP_QUALITY
+    );
+  });
+
+// Decoding with the EXIF orientation applied and redrawing on a canvas drops all other metadata (GPS, camera)
+export async function processImage(file: Blob) {
+  const bitmap = await createImageBitmap(file, { imageOrientation: "from-image" });
+
+  try {
+    const largest = Math.min(bitmap.width, IMAGE_WIDTHS[IMAGE_WIDTHS.length - 1]);
+    const sizes: { width: number; blob: Blob }[] = [];
+    for (const width of sizeWidths(largest)) {
+      sizes.push({ width, blob: await encode(bitmap, width) });
+    }
+    return sizes;
+  } finally {
+    bitmap.close();
+  }
+}
+
+// Uploads every size and returns the largest; nothing is left behind if one of the uploads fails
+export async function uploadImage(bucket: string, folder: string, file: Blob): Promise<UploadedImage> {
+  const sizes = await processImage(file);
+  const id = crypto.randomUUID();
+  const paths: string[] = [];
+
+  try {
+    for (const { width, blob } of sizes) {
+      const path = `${folder}/${id}-${width}w.${blob.type === "image/webp" ? "webp" : "jpg"}`;
+      const { error } = await supabase.storage
+        .from(bucket)
+        .upload(path, blob, { contentType: blob.type, cacheControl: "31536000" });
+      if (error) throw error;
+      paths.push(path);
+    }
+  } catch (err) {
+    if (paths.length > 0) await supabase.storage.from(bucket).remove(paths);
+    throw err;
+  }
+
+  const storagePath = paths[paths.length - 1];
+  const { data } = supabase.storage.from(bucket).getPublicUrl(storagePath);
+  return { url: data.publicUrl, storage_path: storagePath };
+}
+
+// The URL or storage path of every size of an image; older uploads only have the one
+export function imageSizes(pathOrUrl: string) {
+  const match = pathOrUrl.match(SIZE_SUFFIX);
+  if (!match) return [{ width: null, src: pathOrUrl }];
+
+  return sizeWidths(Number(match[1])).map((width) => ({
+    width,
+    src: pathOrUrl.replace(SIZE_SUFFIX, `-${width}w.$2`),
+  }));
+}
+
+export function imageSrcSet(url: string | null | undefined) {
+  if (!url || !SIZE_SUFFIX.test(url)) return undefined;
+  return imageSizes(url)
+    .map(({ width, src }) => `${src} ${width}w`)
+    .join(", ");
+}
+
+// Public URLs look like .../storage/v1/object/public/<bucket>/<path>
+export function storagePathFromUrl(bucket: string, url: string) {
+  const marker = `/storage/v1/object/public/${bucket}/`;
+  const index = url.indexOf(marker);
+  return index === -1 ? null : decodeURIComponent(url.slice(index + marker.length));
+}
+
+export const removeImage = (bucket: string, storagePaths: string[]) =>
+  supabase.storage.from(bucket).remove(storagePaths.flatMap((path) => imageSizes(path).map(({ src }) => src)));
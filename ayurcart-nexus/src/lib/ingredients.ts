@@ -0,0 +1,20 @@
+import { Constants, type Enums, type Tables } from "@/integrations/supabase/types";
+
+export type Ingredient = Tables<"ingredients">;
+export type Allergen = Enums<"allergen">;
+
+export const ALLERGENS = Constants.public.Enums.allergen;
+
+export const ALLERGEN_LABELS: Record<Allergen, string> = {
+  tree_nuts: "Tree nuts",
+  peanuts: "Peanuts",
+  sesame: "Sesame",
+  milk: "Milk",
+  gluten: "Gluten",
+  soy: "Soy",
+  mustard: "Mustard",
+  bee_products: "Bee products",
+};
+
+export const isAllergen = (value: string): value is Allergen =>
+  (ALLERGENS as readonly string[]).includes(value);
@@ -0,0 +1,444 @@
+import type { Tables } from "@/integrations/supabase/types";
+import type { Category } from "@/lib/categories";
+import { DOSHAS, type Dosha } from "@/lib/dosha";
+import type { SheetRows } from "@/lib/spreadsheet";
+import { slugify } from "@/lib/utils";
+
+// What the admin products query returns
+export type CatalogProduct = Tables<"products"> & {
+  product_categories: { category_id: string }[];
+  product_variants: Tables<"product_variants">[];
+  product_images: Tables<"product_images">[];
+};
+
+// A product row leaves variant and sku empty. Each size of a product gets its own row after it,
+// which only uses slug, variant, sku, price, stock_count and status.
+export const PRODUCT_SHEET_COLUMNS = [
+  "slug",
+  "name",
+  "description",
+  "benefits",
+  "ingredients",
+  "usage_instructions",
+  "price",
+  "stock_count",
+  "status",
+  "doshas",
+  "categories",
+  "images",
+  "variant",
+  "sku",
+] as const;
+
+type Column = (typeof PRODUCT_SHEET_COLUMNS)[number];
+
+const LIST_SEPARATOR = ";";
+const PRODUCT_STATUSES = ["active", "inactive", "archived"] as const;
+type ProductStatus = (typeof PRODUCT_STATUSES)[number];
+
+export type ImportStatus = "create" | "update" | "unchanged" | "invalid";
+
+export interface FieldChange {
+  field: string;
+  from: string;
+  to: string;
+}
+
+// A type rather than an interface so it can be sent as Json
+export type ImportVariant = {
+  sku: string;
+  name: string;
+  price: number;
+  stock_count: number;
+  is_active: boolean;
+};
+
+// Sent to the import_products RPC once images are uploaded. Null lists leave those links untouched.
+export interface ProductImport {
+  id: string | null;
+  slug: string;
+  name: string;
+  description: string | null;
+  benefits: string | null;
+  ingredients: string | null;
+  usage_instructions: string | null;
+  price: number;
+  stock_count: number;
+  is_active: boolean;
+  archived: boolean;
+  doshas: Dosha[];
+  category_ids: string[] | null;
+  images: string[] | null;
+  variants: ImportVariant[] | null;
+}
+
+export interface PlannedProduct {
+  slug: string;
+  status: ImportStatus;
+  errors: string[];
+  changes: FieldChange[];
+  product: ProductImport;
+}
+
+export interface ImportPlan {
+  fileErrors: string[];
+  products: PlannedProduct[];
+}
+
+const productStatus = (product: Pick<Tables<"products">, "is_active" | "archived_at">): ProductStatus =>
+  product.archived_at ? "archived" : product.is_active ? "active" : "inactive";
+
+const splitList = (value: string) =>
+  value
+    .split(LIST_SEPARATOR)
+    .map((item) => item.trim())
+    .filter(Boolean);
+
+const byOrder = <T extends { sort_order: number }>(rows: T[]) =>
+  [...rows].sort((a, b) => a.sort_order - b.sort_order);
+
+export const isImageUrl = (ref: string) => /^https?:\/\//i.test(ref);
+
+// Zip entries are matched on the file name alone, ignoring folders and case
+export const imageFileKey = (path: string) => path.split("/").pop()!.toLowerCase();
+
+export function catalogToRows(products: CatalogProduct[], categories: Category[]): SheetRows {
+  const categorySlugs = new Map(categories.map((c) => [c.id, c.slug]));
+  const rows: SheetRows = [[...PRODUCT_SHEET_COLUMNS]];
+
+  for (const product of products) {
+    const row: Record<Column, string> = {
+      slug: product.slug,
+      name: product.name,
+      description: product.description ?? "",
+      benefits: product.benefits ?? "",
+      ingredients: product.ingredients ?? "",
+      usage_instructions: product.usage_instructions ?? "",
+      price: String(product.price),
+      stock_count: String(product.stock_count),
+      status: productStatus(product),
+      doshas: product.doshas.join(LIST_SEPARATOR),
+      categories: product.product_categories
+        .flatMap((pc) => categorySlugs.get(pc.category_id) ?? [])
+        .join(LIST_SEPARATOR),
+      images: byOrder(product.product_images)
+        .map((image) => image.url)
+        .join(LIST_SEPARATOR),
+      variant: "",
+      sku: "",
+    };
+    rows.push(PRODUCT_SHEET_COLUMNS.map((column) => row[column]));
+
+    for (const variant of byOrder(product.product_variants)) {
+      rows.push(
+        PRODUCT_SHEET_COLUMNS.map((column) => {
+          switch (column) {
+            case "slug":
+              return product.slug;
+            case "variant":
+              return variant.name;
+            case "sku":
+              return variant.sku;
+            case "price":
+              return String(variant.price);
+            case "stock_count":
+              return String(variant.stock_count);
+            case "status":
+              return variant.is_active ? "active" : "inactive";
+            default:
+              return "";
+          }
+        })
+      );
+    }
+  }
+
+  return rows;
+}
+
+interface SheetRow {
+  line: number;
+  has: (column: Column) => boolean;
+  get: (column: Column) => string;
+}
+
+const parseNumber = (value: string) => (value === "" ? NaN : Number(value));
+
+// Builds the dry run: every product the file touches, what would change and why a row is rejected
+export function planImport(
+  rows: SheetRows,
+  existing: CatalogProduct[],
+  categories: Category[],
+  imageFiles: Set<string>
+): ImportPlan {
+  const [header = [], ...body] = rows;
+  const columns = header.map((cell) => cell.trim().toLowerCase().replace(/\s+/g, "_"));
+  const fileErrors: string[] = [];
+
+  const unknown = columns.filter((c) => c && !(PRODUCT_SHEET_COLUMNS as readonly string[]).includes(c));
+  if (unknown.length > 0) fileErrors.push(`Unknown columns: ${unknown.join(", ")}`);
+  if (!columns.includes("slug")) fileErrors.push("The file needs a slug column");
+  if (body.length === 0) fileErrors.push("The file has no rows");
+  if (fileErrors.length > 0) return { fileErrors, products: [] };
+
+  const sheetRows: SheetRow[] = body.map((cells, index) => ({
+    line: index + 2,
+    has: (column) => columns.includes(column),
+    get: (column) => (cells[columns.indexOf(column)] ?? "").trim(),
+  }));
+
+  const bySlug = new Map(existing.map((p) => [p.slug, p]));
+  const variantsBySku = new Map(
+    existing.flatMap((p) => p.product_variants.map((v) => [v.sku, { variant: v, product: p }] as const))
+  );
+  const categoryByKey = new Map(
+    categories.flatMap((c) => [
+      [c.slug, c],
+      [c.name.toLowerCase(), c],
+    ])
+  );
+
+  // Rows grouped per product, in file order
+  const groups = new Map<string, SheetRow[]>();
+  const rowErrors: string[] = [];
+  for (const row of sheetRows) {
+    const slug = row.get("slug");
+    if (!slug) {
+      rowErrors.push(`Row ${row.line}: slug is required`);
+      continue;
+    }
+    groups.set(slug, [...(groups.get(slug) ?? []), row]);
+  }
+  if (rowErrors.length > 0) fileErrors.push(...rowErrors);
+
+  const seenSkus = new Set<string>();
+  const products: PlannedProduct[] = [];
+
+  for (const [slug, group] of groups) {
+    const current = bySlug.get(slug);
+    const errors: string[] = [];
+    const error = (row: SheetRow, message: string) => errors.push(`Row ${row.line}: ${message}`);
+
+    if (slug !== slugify(slug)) {
+      error(group[0], `"${slug}" is not a valid slug; use lowercase letters, numbers and dashes`);
+    }
+
+    const productRows = group.filter((row) => !row.get("sku") && !row.get("variant"));
+    const variantRows = group.filter((row) => row.get("sku") || row.get("variant"));
+    productRows.slice(1).forEach((row) => error(row, `"${slug}" already has a product row`));
+    const productRow = productRows[0];
+
+    if (!productRow && !current) {
+      error(group[0], `no product "${slug}" exists yet; add a product row for it`);
+    }
+
+    const product: ProductImport = {
+      id: current?.id ?? null,
+      slug,
+      name: current?.name ?? "",
+      description: current?.description ?? null,
+      benefits: current?.benefits ?? null,
+      ingredients: current?.ingredients ?? null,
+      usage_instructions: current?.usage_instructions ?? null,
+      price: current?.price ?? 0,
+      stock_count: current?.stock_count ?? 0,
+      is_active: current?.is_active ?? true,
+      archived: !!current?.archived_at,
+      doshas: current?.doshas ?? [],
+      category_ids: null,
+      images: null,
+      variants: null,
+    };
+
+    if (productRow) {
+      const row = productRow;
+
+      if (row.has("name")) product.name = row.get("name");
+      if (!product.name) error(row, "name is required");
+
+      for (const field of ["description", "benefits", "ingredients", "usage_instructions"] as const) {
+        if (row.has(field)) product[field] = row.get(field) || null;
+      }
+
+      if (row.get("price")) {
+        const price = parseNumber(row.get("price"));
+        if (Number.isNaN(price) || price < 0) error(row, `price "${row.get("price")}" is not a valid amount`);
+        else product.price = price;
+      } else if (!current && variantRows.length === 0) {
+        error(row, "price is required for a new product");
+      }
+
+      if (row.get("stock_count")) {
+        const stock = parseNumber(row.get("stock_count"));
+        if (!Number.isInteger(stock) || stock < 0) error(row, `stock_count "${row.get("stock_count")}" is not a whole number`);
+        else product.stock_count = stock;
+      } else if (!current && variantRows.length === 0) {
+        error(row, "stock_count is required for a new product");
+      }
+
+      const status = row.get("status").toLowerCase();
+      if (status) {
+        if ((PRODUCT_STATUSES as readonly string[]).includes(status)) {
+          product.is_active = status === "active";
+          product.archived = status === "archived";
+        } else {
+          error(row, `status must be one of ${PRODUCT_STATUSES.join(", ")}`);
+        }
+      }
+
+      if (row.has("doshas")) {
+        const doshas = splitList(row.get("doshas")).map((d) => d.toLowerCase());
+        const invalid = doshas.filter((d) => !(DOSHAS as readonly string[]).includes(d));
+        if (invalid.length > 0) error(row, `unknown doshas: ${invalid.join(", ")}`);
+        else product.doshas = doshas as Dosha[];
+      }
+
+      if (row.has("categories")) {
+        const names = splitList(row.get("categories"));
+        const missing = names.filter((name) => !categoryByKey.has(name.toLowerCase()));
+        if (missing.length > 0) error(row, `unknown categories: ${missing.join(", ")}`);
+        product.category_ids = [...new Set(names.flatMap((name) => categoryByKey.get(name.toLowerCase())?.id ?? []))];
+      }
+
+      if (row.has("images")) {
+        const refs = splitList(row.get("images"));
+        const missing = refs.filter((ref) => !isImageUrl(ref) && !imageFiles.has(imageFileKey(ref)));
+        if (missing.length > 0) error(row, `images not found in the zip: ${missing.join(", ")}`);
+        product.images = refs;
+      }
+    }
+
+    // Sizes in the file are added or updated; sizes missing from it are left alone
+    if (variantRows.length > 0) {
+      product.variants = [];
+
+      for (const row of variantRows) {
+        const sku = row.get("sku");
+        if (!sku) {
+          error(row, "sku is required for a size row");
+          continue;
+        }
+        if (seenSkus.has(sku)) {
+          error(row, `sku "${sku}" appears more than once`);
+          continue;
+        }
+        seenSkus.add(sku);
+
+        const match = variantsBySku.get(sku);
+        if (match && match.product.slug !== slug) {
+          error(row, `sku "${sku}" belongs to "${match.product.slug}"`);
+          continue;
+        }
+
+        const variant: ImportVariant = {
+          sku,
+          name: row.get("variant") || match?.variant.name || "",
+          price: match?.variant.price ?? 0,
+          stock_count: match?.variant.stock_count ?? 0,
+          is_active: match?.variant.is_active ?? true,
+        };
+        if (!variant.name) error(row, `size name is required for new sku "${sku}"`);
+
+        if (row.get("price")) {
+          const price = parseNumber(row.get("price"));
+          if (Number.isNaN(price) || price < 0) error(row, `price "${row.get("price")}" is not a valid amount`);
+          else variant.price = price;
+        } else if (!match) {
+          error(row, `price is required for new sku "${sku}"`);
+        }
+
+        if (row.get("stock_count")) {
+          const stock = parseNumber(row.get("stock_count"));
+          if (!Number.isInteger(stock) || stock < 0) error(row, `stock_count "${row.get("stock_count")}" is not a whole number`);
+          else variant.stock_count = stock;
+        } else if (!match) {
+          error(row, `stock_count is required for new sku "${sku}"`);
+        }
+
+        const status = row.get("status").toLowerCase();
+        if (status === "active" || status === "inactive") variant.is_active = status === "active";
+        else if (status) error(row, "a size's status must be active or inactive");
+
+        product.variants.push(variant);
+      }
+    }
+
+    // Same rule as the product form: with sizes, the product shows the cheapest active one and their total stock
+    const fileSkus = new Set(product.variants?.map((v) => v.sku));
+    const allVariants = [
+      ...(current?.product_variants ?? []).filter((v) => !fileSkus.has(v.sku)),
+      ...(product.variants ?? []),
+    ];
+    const activeVariants = allVariants.filter((v) => v.is_active);
+    if (activeVariants.length > 0) {
+      product.price = Math.min(...activeVariants.map((v) => v.price));
+      product.stock_count = activeVariants.reduce((sum, v) => sum + v.stock_count, 0);
+    }
+    if (product.archived) product.is_active = false;
+
+    const changes = current ? diffProduct(current, product, categories) : [];
+    products.push({
+      slug,
+      status: errors.length > 0 ? "invalid" : !current ? "create" : changes.length > 0 ? "update" : "unchanged",
+      errors,
+      changes,
+      product,
+    });
+  }
+
+  return { fileErrors, products };
+}
+
+function diffProduct(current: CatalogProduct, next: ProductImport, categories: Category[]): FieldChange[] {
+  const changes: FieldChange[] = [];
+  const compare = (field: string, from: string, to: string) => {
+    if (from !== to) changes.push({ field, from, to });
+  };
+
+  compare("name", current.name, next.name);
+  for (const field of ["description", "benefits", "ingredients", "usage_instructions"] as const) {
+    compare(field, current[field] ?? "", next[field] ?? "");
+  }
+  compare("price", current.price.toFixed(2), next.price.toFixed(2));
+  compare("stock_count", String(current.stock_count), String(next.stock_count));
+  compare(
+    "status",
+    productStatus(current),
+    next.archived ? "archived" : next.is_active ? "active" : "inactive"
+  );
+  compare("doshas", [...current.doshas].sort().join(", "), [...next.doshas].sort().join(", "));
+
+  if (next.category_ids) {
+    const names = (ids: string[]) =>
+      categories
+        .filter((c) => ids.includes(c.id))
+        .map((c) => c.name)
+        .sort()
+        .join(", ");
+    compare("categories", names(current.product_categories.map((pc) => pc.category_id)), names(next.category_ids));
+  }
+
+  if (next.images) {
+    compare(
+      "images",
+      byOrder(current.product_images)
+        .map((image) => imageFileKey(image.url))
+        .join(", "),
+      next.images.map(imageFileKey).join(", ")
+    );
+  }
+
+  for (const variant of next.variants ?? []) {
+    const before = current.product_variants.find((v) => v.sku === variant.sku);
+    if (!before) {
+      changes.push({ field: `size ${variant.sku}`, from: "", to: `${variant.name}, $${variant.price.toFixed(2)}, ${variant.stock_count} in stock` });
+      continue;
+    }
+    compare(`${variant.sku} name`, before.name, variant.name);
+    compare(`${variant.sku} price`, before.price.toFixed(2), variant.price.toFixed(2));
+    compare(`${variant.sku} stock`, String(before.stock_count), String(variant.stock_count));
+    compare(`${variant.sku} status`, before.is_active ? "active" : "inactive", variant.is_active ? "active" : "inactive");
+  }
+
+  return changes;
+}
@@ -0,0 +1,97 @@
+// Shared by the app (through useHead) and the build-time prerender, so nothing here may touch the DOM
+
+export const SITE_NAME = "Aagna Naturals";
+export const DEFAULT_DESCRIPTION = "Aagna Naturals - Herbal & Ayurvedic Products";
+export const DEFAULT_IMAGE = "/1000083116.jpg";
+export const CURRENCY = "USD";
+
+export type JsonLd = Record<string, unknown>;
+
+// Crawlers and link previews need absolute URLs
+export const absoluteUrl = (path: string, origin: string) => new URL(path, origin).toString();
+
+// Meta descriptions are cut off around 160 characters
+export const toDescription = (text: string | null | undefined, fallback = DEFAULT_DESCRIPTION) => {
+  const plain = (text ?? "").replace(/\s+/g, " ").trim();
+  if (!plain) return fallback;
+  return plain.length > 160 ? `${plain.slice(0, 157).trimEnd()}...` : plain;
+};
+
+interface ProductJsonLdInput {
+  name: string;
+  slug: string;
+  description: string | null;
+  price: number;
+  stock_count: number;
+  average_rating: number | null;
+  review_count: number;
+  images: string[];
+  variants: { name: string; sku: string; price: number; stock_count: number }[];
+}
+
+const availability = (stock: number) =>
+  stock > 0 ? "https://schema.org/InStock" : "https://schema.org/OutOfStock";
+
+export const productJsonLd = (product: ProductJsonLdInput, origin: string): JsonLd => {
+  const url = absoluteUrl(`/products/${product.slug}`, origin);
+
+  const offers =
+    product.variants.length > 0
+      ? product.variants.map((variant) => ({
+          "@type": "Offer",
+          name: variant.name,
+          sku: variant.sku,
+          price: variant.price.toFixed(2),
+          priceCurrency: CURRENCY,
+          availability: availability(variant.stock_count),
+          url,
+        }))
+      : {
+          "@type": "Offer",
+          price: product.price.toFixed(2),
+          priceCurrency: CURRENCY,
+          availability: availability(product.stock_count),
+          url,
+        };
+
+  return {
+    "@context": "https://schema.org",
+    "@type": "Product",
+    name: product.name,
+    description: toDescription(product.description, product.name),
+    image: product.images.map((image) => absoluteUrl(image, origin)),
+    url,
+    brand: { "@type": "Brand", name: SITE_NAME },
+    offers,
+    ...(product.review_count > 0 && {
+      aggregateRating: {
+        "@type": "AggregateRating",
+        ratingValue: product.average_rating,
+        reviewCount: product.review_count,
+        bestRating: 5,
+        worstRating: 1,
+      },
+    }),
+  };
+};
+
+interface BlogPostingJsonLdInput {
+  title: string;
+  slug: string;
+  description: string;
+  image: string | null;
+  created_at: string | null;
+  updated_at: string | null;
+}
+
+export const blogPostingJsonLd = (blog: BlogPostingJsonLdInput, origin: string): JsonLd => ({
+  "@context": "https://schema.org",
+  "@type": "BlogPosting",
+  headline: blog.title,
+  description: blog.description,
+  ...(blog.image && { image: [absoluteUrl(blog.image, origin)] }),
+  datePublished: blog.created_at,
+  dateModified: blog.updated_at,
+  url: absoluteUrl(`/blog/${blog.slug}`, origin),
+  publisher: { "@type": "Organization", name: SITE_NAME },
+});
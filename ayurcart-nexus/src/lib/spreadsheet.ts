@@ -0,0 +1,113 @@
+// Reading and writing simple one-sheet tables as CSV or XLSX. The XLSX library is large, so it is
+// only loaded when an .xlsx file is actually read or written.
+
+export type SheetFormat = "csv" | "xlsx";
+export type SheetRows = string[][];
+
+const XLSX_MIME = "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet";
+
+// Spreadsheet apps run CSV cells starting with these as formulas, so toCsv prefixes them with '
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+// RFC 4180: quoted fields may contain commas, doubled quotes and line breaks
+export function parseCsv(text: string): SheetRows {
+  const rows: SheetRows = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  const input = text.replace(/^\uFEFF/, "");
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Undo toCsv's formula guard so an exported catalog imports unchanged
+  return rows
+    .filter((r) => r.some((cell) => cell.trim() !== ""))
+    .map((r) => r.map((cell) => (cell.startsWith("'") && FORMULA_START.test(cell.slice(1)) ? cell.slice(1) : cell)));
+}
+
+export function toCsv(rows: SheetRows) {
+  const escape = (value: string) => {
+    const cell = FORMULA_START.test(value) ? `'${value}` : value;
+    return /[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+  };
+  // The BOM makes Excel open the file as UTF-8
+  return "\uFEFF" + rows.map((row) => row.map(escape).join(",")).join("\r\n");
+}
+
+export async function readSheet(file: File): Promise<SheetRows> {
+  if (!file.name.toLowerCase().endsWith(".xlsx")) {
+    return parseCsv(await file.text());
+  }
+
+  const ExcelJS = await import("exceljs");
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(await file.arrayBuffer());
+
+  const worksheet = workbook.worksheets[0];
+  if (!worksheet) return [];
+
+  const rows: SheetRows = [];
+  worksheet.eachRow((row) => {
+    const cells: string[] = [];
+    for (let col = 1; col <= worksheet.columnCount; col++) {
+      cells.push(row.getCell(col).text ?? "");
+    }
+    if (cells.some((cell) => cell.trim() !== "")) rows.push(cells);
+  });
+  return rows;
+}
+
+export async function writeSheet(rows: SheetRows, format: SheetFormat, sheetName = "Sheet1"): Promise<Blob> {
+  if (format === "csv") {
+    return new Blob([toCsv(rows)], { type: "text/csv;charset=utf-8" });
+  }
+
+  const ExcelJS = await import("exceljs");
+  const workbook = new ExcelJS.Workbook();
+  const worksheet = workbook.addWorksheet(sheetName);
+  worksheet.addRows(rows);
+  worksheet.getRow(1).font = { bold: true };
+  worksheet.views = [{ state: "frozen", ySplit: 1 }];
+
+  return new Blob([await workbook.xlsx.writeBuffer()], { type: XLSX_MIME });
+}
+
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
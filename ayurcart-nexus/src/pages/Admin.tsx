@@ -7,9 +7,14 @@ import { useAuth } from "@/contexts/AuthContext";
 import { useNavigate } from "react-router-dom";
 import { Loader2 } from "lucide-react";
 import { ProductsManagement } from "@/components/admin/ProductsManagement";
+import { CategoriesManagement } from "@/components/admin/CategoriesManagement";
+import { IngredientsManagement } from "@/components/admin/IngredientsManagement";
 import { OrdersManagement } from "@/components/admin/OrdersManagement";
+import { ReviewsManagement } from "@/components/admin/ReviewsManagement";
+import { StockAlertsManagement } from "@/components/admin/StockAlertsManagement";
 import { UsersManagement } from "@/components/admin/UsersManagement";
 import { BlogsManagement } from "@/components/admin/BlogsManagement";
+import { MediaCleanup } from "@/components/admin/MediaCleanup";
 import { toast } from "sonner";
 
 const Admin = () => {
@@ -64,21 +69,42 @@ const Admin = () => {
         <h1 className="text-4xl font-bold mb-8">Admin Panel</h1>
 
         <Tabs defaultValue="products" className="w-full">
-          <TabsList className="grid w-full grid-cols-4">
+          <TabsList className="grid w-full grid-cols-9">
             <TabsTrigger value="products">Products</TabsTrigger>
+            <TabsTrigger value="categories">Categories</TabsTrigger>
+            <TabsTrigger value="ingredients">Ingredients</TabsTrigger>
             <TabsTrigger value="orders">Orders</TabsTrigger>
+            <TabsTrigger value="reviews">Reviews</TabsTrigger>
+            <TabsTrigger value="stock-alerts">Stock Alerts</TabsTrigger>
             <TabsTrigger value="users">Users</TabsTrigger>
             <TabsTrigger value="blogs">Blogs</TabsTrigger>
+            <TabsTrigger value="media">Media</TabsTrigger>
           </TabsList>
 
           <TabsContent value="products" className="mt-6">
             <ProductsManagement />
           </TabsContent>
 
+          <TabsContent value="categories" className="mt-6">
+            <CategoriesManagement />
+          </TabsContent>
+
+          <TabsContent value="ingredients" className="mt-6">
+            <IngredientsManagement />
+          </TabsContent>
+
           <TabsContent value="orders" className="mt-6">
             <OrdersManagement />
           </TabsContent>
 
+          <TabsContent value="reviews" className="mt-6">
+            <ReviewsManagement />
+          </TabsContent>
+
+          <TabsContent value="stock-alerts" className="mt-6">
+            <StockAlertsManagement />
+          </TabsContent>
+
           <TabsContent value="users" className="mt-6">
             <UsersManagement />
           </TabsContent>
@@ -86,6 +112,10 @@ const Admin = () => {
           <TabsContent value="blogs" className="mt-6">
             <BlogsManagement />
           </TabsContent>
+
+          <TabsContent value="media" className="mt-6">
+            <MediaCleanup />
+          </TabsContent>
         </Tabs>
       </div>
     </div>
@@ -1,5 +1,5 @@
 import { useState, useEffect } from "react";
-import { useNavigate } from "react-router-dom";
+import { useLocation, useNavigate } from "react-router-dom";
 import { useAuth } from "@/contexts/AuthContext";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -26,6 +26,9 @@ const signInSchema = z.object({
 const Auth = () => {
   const { signUp, signIn, user } = useAuth();
   const navigate = useNavigate();
+  const location = useLocation();
+  // Pages that send shoppers here to sign in, like the cart, pass themselves along to come back to
+  const from = (location.state as { from?: string } | null)?.from ?? "/";
   const [loading, setLoading] = useState(false);
   const [signUpData, setSignUpData] = useState({
     name: "",
@@ -41,9 +44,9 @@ const Auth = () => {
 
   useEffect(() => {
     if (user) {
-      navigate("/");
+      navigate(from);
     }
-  }, [user, navigate]);
+  }, [user, navigate, from]);
 
   const handleSignUp = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -65,7 +68,7 @@ const Auth = () => {
         }
       } else {
         toast.success("Account created successfully!");
-        navigate("/");
+        navigate(from);
       }
     } catch (err) {
       if (err instanceof z.ZodError) {
@@ -94,7 +97,7 @@ const Auth = () => {
         }
       } else {
         toast.success("Signed in successfully!");
-        navigate("/");
+        navigate(from);
       }
     } catch (err) {
       if (err instanceof z.ZodError) {
@@ -1,4 +1,5 @@
 import { useQuery } from "@tanstack/react-query";
+import { Link } from "react-router-dom";
 import { supabase } from "@/lib/supabase";
 import { Navbar } from "@/components/Navbar";
 import {
@@ -9,10 +10,18 @@ import {
   CardTitle,
 } from "@/components/ui/card";
 import { Skeleton } from "@/components/ui/skeleton";
+import { ResponsiveImage } from "@/components/ResponsiveImage";
 import { Calendar } from "lucide-react";
 import { format } from "date-fns";
+import { useHead } from "@/hooks/use-head";
+import { blogExcerpt, parseBlogMedia } from "@/lib/blog";
 
 const Blog = () => {
+  useHead({
+    title: "Ayurveda Blog",
+    description: "Discover ancient wisdom and modern wellness insights from Aagna Naturals.",
+  });
+
   const { data: blogs, isLoading } = useQuery({
     queryKey: ["blogs"],
     queryFn: async () => {
@@ -59,21 +68,8 @@ const Blog = () => {
         ) : blogs && blogs.length > 0 ? (
           <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
 
-            {blogs.map((blog: any) => {
-              // --------------------------
-              // SAFE MEDIA PARSER
-              // --------------------------
-              let media: any[] = [];
-
-              try {
-                if (Array.isArray(blog.media)) {
-                  media = blog.media;
-                } else if (typeof blog.media === "string") {
-                  media = JSON.parse(blog.media);
-                }
-              } catch (error) {
-                media = [];
-              }
+            {blogs.map((blog) => {
+              const media = parseBlogMedia(blog.media);
 
               const images = media.filter((m) => m?.type === "image");
               const videos = media.filter((m) => m?.type === "video");
@@ -89,26 +85,34 @@ const Blog = () => {
                 >
                   {/* COVER IMAGE */}
                   {coverImage && (
-                    <img
+                    <ResponsiveImage
                       src={coverImage}
+                      sizes="(min-width: 1024px) 33vw, (min-width: 768px) 50vw, 100vw"
                       alt={blog.title}
                       className="h-48 w-full object-cover"
                     />
                   )}
 
                   <CardHeader>
-                    <CardTitle>{blog.title}</CardTitle>
+                    <CardTitle>
+                      <Link to={`/blog/${blog.slug}`} className="hover:text-primary">
+                        {blog.title}
+                      </Link>
+                    </CardTitle>
                     <CardDescription className="flex items-center gap-2">
                       <Calendar className="h-4 w-4" />
-                      {format(new Date(blog.created_at), "MMMM d, yyyy")}
+                      {format(new Date(blog.created_at!), "MMMM d, yyyy")}
                     </CardDescription>
                   </CardHeader>
 
                   <CardContent className="space-y-4">
                     {/* EXCERPT */}
                     <p className="text-muted-foreground line-clamp-3">
-                      {blog.excerpt || blog.content.substring(0, 150) + "..."}
+                      {blogExcerpt(blog)}
                     </p>
+                    <Link to={`/blog/${blog.slug}`} className="text-sm font-medium text-primary hover:underline">
+                      Read more →
+                    </Link>
 
                     {/* IMAGE GRID */}
                     {images.length > 0 && (
@@ -120,9 +124,10 @@ const Blog = () => {
                         }
                       >
                         {images.slice(0, 4).map((img, idx) => (
-                          <img
+                          <ResponsiveImage
                             key={idx}
                             src={img.url}
+                            sizes="(min-width: 1024px) 16vw, (min-width: 768px) 25vw, 50vw"
                             alt={`blog-image-${idx}`}
                             className="w-full h-40 object-cover rounded-md"
                           />
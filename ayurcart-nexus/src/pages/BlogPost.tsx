@@ -0,0 +1,122 @@
+import { useQuery } from "@tanstack/react-query";
+import { useNavigate, useParams } from "react-router-dom";
+import { supabase } from "@/lib/supabase";
+import { Navbar } from "@/components/Navbar";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ResponsiveImage } from "@/components/ResponsiveImage";
+import { Calendar } from "lucide-react";
+import { format } from "date-fns";
+import { useHead } from "@/hooks/use-head";
+import { blogExcerpt, parseBlogMedia } from "@/lib/blog";
+import { blogPostingJsonLd, toDescription } from "@/lib/seo";
+
+const BlogPost = () => {
+  const { slug } = useParams();
+  const navigate = useNavigate();
+
+  const { data: blog, isLoading } = useQuery({
+    queryKey: ["blog", slug],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("blogs")
+        .select("*")
+        .eq("slug", slug!)
+        .eq("is_published", true)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!slug,
+  });
+
+  const media = parseBlogMedia(blog?.media ?? null);
+  const images = media.filter((m) => m.type === "image");
+  const videos = media.filter((m) => m.type === "video");
+  const audios = media.filter((m) => m.type === "audio");
+  const coverImage = images[0]?.url || blog?.image_url || null;
+
+  useHead({
+    title: blog?.title,
+    description: blog ? toDescription(blogExcerpt(blog)) : undefined,
+    image: coverImage,
+    type: "article",
+    jsonLd: blog
+      ? blogPostingJsonLd(
+          { ...blog, description: toDescription(blogExcerpt(blog)), image: coverImage },
+          window.location.origin
+        )
+      : null,
+  });
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navbar />
+      <article className="container mx-auto px-4 py-8 max-w-3xl">
+        <Button variant="ghost" onClick={() => navigate("/blog")} className="mb-6">
+          ← Back to Blog
+        </Button>
+
+        {isLoading ? (
+          <div className="space-y-4">
+            <Skeleton className="h-10 w-3/4" />
+            <Skeleton className="h-4 w-1/3" />
+            <Skeleton className="h-72 w-full" />
+          </div>
+        ) : !blog ? (
+          <div className="text-center py-12">
+            <p className="text-muted-foreground text-lg">This post could not be found.</p>
+          </div>
+        ) : (
+          <>
+            <h1 className="text-4xl font-bold mb-3">{blog.title}</h1>
+            {blog.created_at && (
+              <p className="flex items-center gap-2 text-muted-foreground mb-8">
+                <Calendar className="h-4 w-4" />
+                {format(new Date(blog.created_at), "MMMM d, yyyy")}
+              </p>
+            )}
+
+            {coverImage && (
+              <ResponsiveImage
+                src={coverImage}
+                sizes="(min-width: 768px) 768px, 100vw"
+                alt={blog.title}
+                className="w-full max-h-[28rem] object-cover rounded-lg mb-8"
+              />
+            )}
+
+            <div className="text-lg leading-relaxed whitespace-pre-line">{blog.content}</div>
+
+            {images.length > 1 && (
+              <div className="grid grid-cols-2 gap-2 mt-8">
+                {images.slice(1).map((img, idx) => (
+                  <ResponsiveImage
+                    key={img.url}
+                    src={img.url}
+                    sizes="(min-width: 768px) 384px, 50vw"
+                    alt={`${blog.title} image ${idx + 2}`}
+                    className="w-full h-56 object-cover rounded-md"
+                  />
+                ))}
+              </div>
+            )}
+
+            {videos.map((video) => (
+              <video key={video.url} controls src={video.url} className="w-full rounded-md mt-8" />
+            ))}
+
+            {audios.map((audio) => (
+              <audio key={audio.url} controls className="w-full mt-8">
+                <source src={audio.url} />
+              </audio>
+            ))}
+          </>
+        )}
+      </article>
+    </div>
+  );
+};
+
+export default BlogPost;
@@ -1,69 +1,37 @@
-import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import { supabase } from "@/lib/supabase";
 import { Navbar } from "@/components/Navbar";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { useAuth } from "@/contexts/AuthContext";
+import { cartLinePrice, useCart } from "@/hooks/use-cart";
+import { shippingLabel, useFreeShippingThreshold } from "@/hooks/use-free-shipping";
+import { useAvailableStock, useAvailableVariantStock } from "@/hooks/use-available-stock";
 import { useNavigate } from "react-router-dom";
+import { YouMayAlsoLike } from "@/components/YouMayAlsoLike";
+import { ResponsiveImage } from "@/components/ResponsiveImage";
 import { Minus, Plus, Trash2, ShoppingBag } from "lucide-react";
 import { toast } from "sonner";
 
 const Cart = () => {
   const { user } = useAuth();
   const navigate = useNavigate();
-  const queryClient = useQueryClient();
+  const { items: cartItems, isLoading, subtotal: total, updateQuantity, remove } = useCart();
+  const { data: freeShippingThreshold = 0 } = useFreeShippingThreshold();
 
-  const { data: cartItems, isLoading } = useQuery({
-    queryKey: ["cart", user?.id],
-    queryFn: async () => {
-      if (!user) return [];
-      const { data, error } = await supabase
-        .from("cart_items")
-        .select(`
-          *,
-          products (*)
-        `)
-        .eq("user_id", user.id);
+  const { data: availableStock } = useAvailableStock(cartItems.map((item) => item.product_id));
 
-      if (error) throw error;
-      return data;
-    },
-    enabled: !!user,
-  });
-
-  const updateQuantityMutation = useMutation({
-    mutationFn: async ({ id, quantity }: { id: string; quantity: number }) => {
-      const { error } = await supabase
-        .from("cart_items")
-        .update({ quantity })
-        .eq("id", id);
-      if (error) throw error;
-    },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["cart"] });
-    },
-  });
-
-  const removeItemMutation = useMutation({
-    mutationFn: async (id: string) => {
-      const { error } = await supabase.from("cart_items").delete().eq("id", id);
-      if (error) throw error;
-    },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["cart"] });
-      toast.success("Item removed from cart");
-    },
-  });
-
-  const total = cartItems?.reduce(
-    (sum, item) => sum + (item.products?.price || 0) * item.quantity,
-    0
-  ) || 0;
+  const { data: availableVariantStock } = useAvailableVariantStock(
+    cartItems.flatMap((item) => (item.variant_id ? [item.variant_id] : []))
+  );
 
-  if (!user) {
-    navigate("/auth");
-    return null;
-  }
+  // Guests sign in to check out; their cart is merged into their account on the way
+  const checkout = () => {
+    if (user) {
+      navigate("/checkout");
+    } else {
+      toast.info("Sign in to check out. Your cart will be kept.");
+      navigate("/auth", { state: { from: "/cart" } });
+    }
+  };
 
   return (
     <div className="min-h-screen bg-background">
@@ -81,7 +49,7 @@ const Cart = () => {
               </Card>
             ))}
           </div>
-        ) : !cartItems || cartItems.length === 0 ? (
+        ) : cartItems.length === 0 ? (
           <Card>
             <CardContent className="p-12 text-center">
               <ShoppingBag className="h-16 w-16 text-muted-foreground mx-auto mb-4" />
@@ -93,73 +61,89 @@ const Cart = () => {
         ) : (
           <div className="grid gap-8 lg:grid-cols-3">
             <div className="lg:col-span-2 space-y-4">
-              {cartItems.map((item) => (
-                <Card key={item.id}>
-                  <CardContent className="p-6">
-                    <div className="flex gap-4">
-                      <div className="w-24 h-24 rounded bg-gradient-to-br from-primary/10 to-accent/10 flex items-center justify-center flex-shrink-0">
-                        {item.products?.image_url ? (
-                          <img
-                            src={item.products.image_url}
-                            alt={item.products.name}
-                            className="w-full h-full object-cover rounded"
-                          />
-                        ) : (
-                          <ShoppingBag className="h-8 w-8 text-primary" />
-                        )}
-                      </div>
+              {cartItems.map((item) => {
+                const available = item.variant_id
+                  ? availableVariantStock?.[item.variant_id] ?? item.product_variants?.stock_count ?? 0
+                  : availableStock?.[item.product_id] ?? item.products?.stock_count ?? 0;
+
+                return (
+                  <Card key={item.id}>
+                    <CardContent className="p-6">
+                      <div className="flex gap-4">
+                        <div className="w-24 h-24 rounded bg-gradient-to-br from-primary/10 to-accent/10 flex items-center justify-center flex-shrink-0">
+                          {item.products?.image_url ? (
+                            <ResponsiveImage
+                              src={item.products.image_url}
+                              sizes="96px"
+                              alt={item.products.name}
+                              className="w-full h-full object-cover rounded"
+                            />
+                          ) : (
+                            <ShoppingBag className="h-8 w-8 text-primary" />
+                          )}
+                        </div>
 
-                      <div className="flex-1">
-                        <h3 className="font-semibold text-lg mb-1">{item.products?.name}</h3>
-                        <p className="text-muted-foreground text-sm mb-3 line-clamp-2">
-                          {item.products?.description}
-                        </p>
-                        <div className="flex items-center gap-4">
-                          <div className="flex items-center gap-2">
-                            <Button
-                              size="icon"
-                              variant="outline"
-                              onClick={() =>
-                                updateQuantityMutation.mutate({
-                                  id: item.id,
-                                  quantity: Math.max(1, item.quantity - 1),
-                                })
-                              }
-                            >
-                              <Minus className="h-4 w-4" />
-                            </Button>
-                            <span className="w-8 text-center font-medium">{item.quantity}</span>
-                            <Button
-                              size="icon"
-                              variant="outline"
-                              onClick={() =>
-                                updateQuantityMutation.mutate({
-                                  id: item.id,
-                                  quantity: item.quantity + 1,
-                                })
-                              }
-                            >
-                              <Plus className="h-4 w-4" />
-                            </Button>
+                        <div className="flex-1">
+                          <h3 className="font-semibold text-lg mb-1">{item.products?.name}</h3>
+                          {item.product_variants && (
+                            <p className="text-sm font-medium mb-1">{item.product_variants.name}</p>
+                          )}
+                          <p className="text-muted-foreground text-sm mb-3 line-clamp-2">
+                            {item.products?.description}
+                          </p>
+                          <div className="flex items-center gap-4">
+                            <div className="flex items-center gap-2">
+                              <Button
+                                size="icon"
+                                variant="outline"
+                                onClick={() =>
+                                  updateQuantity({
+                                    id: item.id,
+                                    quantity: Math.max(1, item.quantity - 1),
+                                  })
+                                }
+                              >
+                                <Minus className="h-4 w-4" />
+                              </Button>
+                              <span className="w-8 text-center font-medium">{item.quantity}</span>
+                              <Button
+                                size="icon"
+                                variant="outline"
+                                onClick={() =>
+                                  updateQuantity({
+                                    id: item.id,
+                                    quantity: item.quantity + 1,
+                                  })
+                                }
+                                disabled={item.quantity >= available}
+                              >
+                                <Plus className="h-4 w-4" />
+                              </Button>
+                            </div>
+                            <span className="font-semibold text-primary">
+                              ${(cartLinePrice(item) * item.quantity).toFixed(2)}
+                            </span>
                           </div>
-                          <span className="font-semibold text-primary">
-                            ${((item.products?.price || 0) * item.quantity).toFixed(2)}
-                          </span>
+                          {item.quantity > available && (
+                            <p className="text-sm text-destructive mt-2">
+                              {available > 0 ? `Only ${available} available` : "Currently out of stock"}
+                            </p>
+                          )}
                         </div>
-                      </div>
 
-                      <Button
-                        size="icon"
-                        variant="ghost"
-                        className="text-destructive hover:text-destructive"
-                        onClick={() => removeItemMutation.mutate(item.id)}
-                      >
-                        <Trash2 className="h-4 w-4" />
-                      </Button>
-                    </div>
-                  </CardContent>
-                </Card>
-              ))}
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          className="text-destructive hover:text-destructive"
+                          onClick={() => remove(item.id)}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </CardContent>
+                  </Card>
+                );
+              })}
             </div>
 
             <div className="lg:col-span-1">
@@ -173,7 +157,7 @@ const Cart = () => {
                     </div>
                     <div className="flex justify-between">
                       <span className="text-muted-foreground">Shipping</span>
-                      <span className="font-medium">Calculated at checkout</span>
+                      <span className="font-medium">{shippingLabel(total, freeShippingThreshold)}</span>
                     </div>
                     <div className="h-px bg-border my-4" />
                     <div className="flex justify-between text-lg font-bold">
@@ -181,7 +165,7 @@ const Cart = () => {
                       <span className="text-primary">${total.toFixed(2)}</span>
                     </div>
                   </div>
-                  <Button className="w-full" size="lg" onClick={() => navigate("/checkout")}>
+                  <Button className="w-full" size="lg" onClick={checkout}>
                     Proceed to Checkout
                   </Button>
                 </CardContent>
@@ -189,6 +173,10 @@ const Cart = () => {
             </div>
           </div>
         )}
+
+        {cartItems.length > 0 && (
+          <YouMayAlsoLike productIds={[...new Set(cartItems.map((item) => item.product_id))]} />
+        )}
       </div>
     </div>
   );
@@ -1,10 +1,12 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { supabase } from "@/lib/supabase";
 import { Navbar } from "@/components/Navbar";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { useAuth } from "@/contexts/AuthContext";
+import { cartLinePrice, useCart } from "@/hooks/use-cart";
+import { shippingLabel, useFreeShippingThreshold } from "@/hooks/use-free-shipping";
 import { useNavigate } from "react-router-dom";
 import { Loader2 } from "lucide-react";
 import { toast } from "sonner";
@@ -16,24 +18,8 @@ const Checkout = () => {
 
   const ADMIN_WHATSAPP = "94741167143"; // Admin WhatsApp Number
 
-  // Fetch cart items
-  const { data: cartItems } = useQuery({
-    queryKey: ["cart", user?.id],
-    queryFn: async () => {
-      if (!user) return [];
-      const { data, error } = await supabase
-        .from("cart_items")
-        .select(`
-          *,
-          products (*)
-        `)
-        .eq("user_id", user.id);
-
-      if (error) throw error;
-      return data;
-    },
-    enabled: !!user,
-  });
+  const { items: cartItems, isLoading, subtotal: total } = useCart();
+  const { data: freeShippingThreshold = 0 } = useFreeShippingThreshold();
 
   // Fetch profile details
   const { data: profile } = useQuery({
@@ -52,57 +38,39 @@ const Checkout = () => {
     enabled: !!user,
   });
 
-  // Create order mutation
-  const createOrderMutation = useMutation({
+  // Hold the cart's stock while the customer is on this page
+  const { mutate: reserveStock, data: reservedUntil } = useMutation({
     mutationFn: async () => {
-      if (!user || !cartItems) throw new Error("Invalid state");
-
-      const total = cartItems.reduce(
-        (sum, item) => sum + (item.products?.price || 0) * item.quantity,
-        0
-      );
-
-      // Create order
-      const { data: order, error: orderError } = await supabase
-        .from("orders")
-        .insert({
-          user_id: user.id,
-          total_amount: total,
-          payment_status: "completed",
-          delivery_status: "processing",
-        })
-        .select()
-        .single();
-
-      if (orderError) throw orderError;
+      const { data, error } = await supabase.rpc("reserve_cart_stock");
 
-      // Create order items
-      const orderItems = cartItems.map((item) => ({
-        order_id: order.id,
-        product_id: item.product_id,
-        product_name: item.products?.name || "",
-        quantity: item.quantity,
-        price: item.products?.price || 0,
-      }));
+      if (error) throw error;
+      return data;
+    },
 
-      const { error: itemsError } = await supabase
-        .from("order_items")
-        .insert(orderItems);
+    onError: (err: Error) => {
+      toast.error(err?.message || "Some items are no longer available");
+      navigate("/cart");
+    },
+  });
 
-      if (itemsError) throw itemsError;
+  useEffect(() => {
+    if (cartItems.length > 0) {
+      reserveStock();
+    }
+  }, [cartItems, reserveStock]);
 
-      // Clear cart
-      const { error: clearError } = await supabase
-        .from("cart_items")
-        .delete()
-        .eq("user_id", user.id);
+  // Place order (priced, stock-checked and cleared server-side)
+  const createOrderMutation = useMutation({
+    mutationFn: async () => {
+      if (!user) throw new Error("Invalid state");
 
-      if (clearError) throw clearError;
+      const { data: order, error } = await supabase.rpc("place_order");
 
-      return total;
+      if (error) throw error;
+      return order;
     },
 
-    onSuccess: (total) => {
+    onSuccess: (order) => {
       toast.success("Order placed successfully!");
 
       const message =
@@ -115,12 +83,14 @@ const Checkout = () => {
         cartItems
           .map(
             (item) =>
-              `- ${item.products?.name || "Item"} (x${
+              `- ${item.products?.name || "Item"}${
+                item.product_variants ? ` ${item.product_variants.name}` : ""
+              } (x${
                 item.quantity || 1
               })`
           )
           .join("\n") +
-        `\n\n*Total Amount:* $${total.toFixed(2)}\n\n` +
+        `\n\n*Total Amount:* $${Number(order.total_amount).toFixed(2)}\n\n` +
         `Please confirm the order.`;
 
       // WhatsApp Redirect
@@ -131,8 +101,8 @@ const Checkout = () => {
       window.location.href = url;
     },
 
-    onError: () => {
-      toast.error("Failed to place order");
+    onError: (err: Error) => {
+      toast.error(err?.message || "Failed to place order");
       setProcessing(false);
     },
   });
@@ -144,19 +114,15 @@ const Checkout = () => {
     }, 1500);
   };
 
-  const total = cartItems?.reduce(
-    (sum, item) => sum + (item.products?.price || 0) * item.quantity,
-    0
-  ) || 0;
-
   // Redirect if not logged in
   if (!user) {
     navigate("/auth");
     return null;
   }
 
-  // Redirect if no items
-  if (!cartItems || cartItems.length === 0) {
+  // Redirect if no items; placing the order empties the cart on the way out to WhatsApp
+  if (isLoading) return null;
+  if (cartItems.length === 0 && !processing) {
     navigate("/cart");
     return null;
   }
@@ -189,11 +155,16 @@ const Checkout = () => {
                   {cartItems.map((item) => (
                     <div key={item.id} className="flex justify-between items-center">
                       <div>
-                        <p className="font-medium">{item.products?.name}</p>
+                        <p className="font-medium">
+                          {item.products?.name}
+                          {item.product_variants && (
+                            <span className="text-muted-foreground"> · {item.product_variants.name}</span>
+                          )}
+                        </p>
                         <p className="text-sm text-muted-foreground">Quantity: {item.quantity}</p>
                       </div>
                       <p className="font-semibold text-primary">
-                        ${((item.products?.price || 0) * item.quantity).toFixed(2)}
+                        ${(cartLinePrice(item) * item.quantity).toFixed(2)}
                       </p>
                     </div>
                   ))}
@@ -217,7 +188,7 @@ const Checkout = () => {
 
                   <div className="flex justify-between">
                     <span className="text-muted-foreground">Shipping</span>
-                    <span className="font-medium">Free</span>
+                    <span className="font-medium">{shippingLabel(total, freeShippingThreshold)}</span>
                   </div>
 
                   <div className="h-px bg-border my-4" />
@@ -228,6 +199,16 @@ const Checkout = () => {
                   </div>
                 </div>
 
+                {reservedUntil && (
+                  <p className="text-sm text-muted-foreground">
+                    Your items are reserved until{" "}
+                    {new Date(reservedUntil).toLocaleTimeString([], {
+                      hour: "2-digit",
+                      minute: "2-digit",
+                    })}
+                  </p>
+                )}
+
                 <Button
                   className="w-full"
                   size="lg"
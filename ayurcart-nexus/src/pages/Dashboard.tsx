@@ -1,17 +1,51 @@
-import { useQuery } from "@tanstack/react-query";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { supabase } from "@/lib/supabase";
 import { Navbar } from "@/components/Navbar";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import { ResponsiveImage } from "@/components/ResponsiveImage";
 import { useAuth } from "@/contexts/AuthContext";
+import { useCart } from "@/hooks/use-cart";
 import { useNavigate } from "react-router-dom";
-import { Package, Download, RefreshCw } from "lucide-react";
+import { Package, Download, RefreshCw, Bell, X } from "lucide-react";
 import { toast } from "sonner";
 
 const Dashboard = () => {
   const { user } = useAuth();
+  const { add } = useCart();
   const navigate = useNavigate();
+  const queryClient = useQueryClient();
+
+  const { data: notifications } = useQuery({
+    queryKey: ["notifications", user?.id],
+    queryFn: async () => {
+      if (!user) return [];
+      const { data, error } = await supabase
+        .from("notifications")
+        .select("*")
+        .eq("user_id", user.id)
+        .is("read_at", null)
+        .order("created_at", { ascending: false });
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!user,
+  });
+
+  const markReadMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase
+        .from("notifications")
+        .update({ read_at: new Date().toISOString() })
+        .eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["notifications"] });
+    },
+  });
 
   const { data: orders, isLoading } = useQuery({
     queryKey: ["user-orders", user?.id],
@@ -23,7 +57,7 @@ const Dashboard = () => {
           *,
           order_items (
             *,
-            products (name, image_url)
+            products (slug, image_url, is_active)
           )
         `)
         .eq("user_id", user.id)
@@ -35,27 +69,29 @@ const Dashboard = () => {
     enabled: !!user,
   });
 
-  const reorder = async (orderId: string) => {
-    if (!user) return;
-
+  const reorder = (orderId: string) => {
     const order = orders?.find((o) => o.id === orderId);
     if (!order) return;
 
-    try {
-      for (const item of order.order_items) {
-        await supabase.from("cart_items").upsert({
-          user_id: user.id,
-          product_id: item.product_id,
-          quantity: item.quantity,
-        }, {
-          onConflict: "user_id,product_id",
-        });
-      }
-      toast.success("Items added to cart!");
-      navigate("/cart");
-    } catch {
-      toast.error("Failed to reorder");
+    // Archived products can't be bought again
+    const available = order.order_items.filter((item) => item.products?.is_active);
+    if (available.length === 0) {
+      toast.error("These products are no longer available");
+      return;
     }
+
+    if (available.length < order.order_items.length) {
+      toast.info("Some products in this order are no longer sold");
+    }
+
+    add(
+      available.map((item) => ({
+        product_id: item.product_id,
+        variant_id: item.variant_id,
+        quantity: item.quantity,
+      })),
+      { onSuccess: () => navigate("/cart") }
+    );
   };
 
   if (!user) {
@@ -70,6 +106,7 @@ const Dashboard = () => {
       delivered: "default",
       pending: "destructive",
       completed: "default",
+      cancelled: "destructive",
     };
     return colors[status] || "default";
   };
@@ -80,6 +117,51 @@ const Dashboard = () => {
       <div className="container mx-auto px-4 py-8">
         <h1 className="text-4xl font-bold mb-8">My Dashboard</h1>
 
+        {notifications && notifications.length > 0 && (
+          <Card className="mb-8">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 text-lg">
+                <Bell className="h-5 w-5 text-primary" />
+                Notifications
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {notifications.map((notification) => (
+                <div key={notification.id} className="flex items-start justify-between gap-4 rounded-md border p-4">
+                  <div>
+                    <p className="font-medium">{notification.title}</p>
+                    {notification.body && (
+                      <p className="text-sm text-muted-foreground">{notification.body}</p>
+                    )}
+                  </div>
+                  <div className="flex gap-2 flex-shrink-0">
+                    {notification.link && (
+                      <Button
+                        size="sm"
+                        onClick={() => {
+                          markReadMutation.mutate(notification.id);
+                          navigate(notification.link!);
+                        }}
+                      >
+                        View
+                      </Button>
+                    )}
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      className="h-9 w-9"
+                      aria-label="Dismiss"
+                      onClick={() => markReadMutation.mutate(notification.id)}
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
         {isLoading ? (
           <div className="space-y-4">
             {[1, 2, 3].map((i) => (
@@ -127,8 +209,9 @@ const Dashboard = () => {
                       <div key={item.id} className="flex items-center gap-4">
                         <div className="w-16 h-16 rounded bg-gradient-to-br from-primary/10 to-accent/10 flex items-center justify-center flex-shrink-0">
                           {item.products?.image_url ? (
-                            <img
+                            <ResponsiveImage
                               src={item.products.image_url}
+                              sizes="64px"
                               alt={item.product_name}
                               className="w-full h-full object-cover rounded"
                             />
@@ -137,7 +220,24 @@ const Dashboard = () => {
                           )}
                         </div>
                         <div className="flex-1">
-                          <p className="font-medium">{item.product_name}</p>
+                          <p className="font-medium">
+                            {item.products?.is_active ? (
+                              <button
+                                className="hover:underline"
+                                onClick={() => navigate(`/products/${item.products.slug}`)}
+                              >
+                                {item.product_name}
+                              </button>
+                            ) : (
+                              item.product_name
+                            )}
+                            {item.variant_name && (
+                              <span className="text-muted-foreground"> · {item.variant_name}</span>
+                            )}
+                            {item.products && !item.products.is_active && (
+                              <span className="ml-2 text-xs text-muted-foreground">No longer available</span>
+                            )}
+                          </p>
                           <p className="text-sm text-muted-foreground">
                             Quantity: {item.quantity} × ${item.price}
                           </p>
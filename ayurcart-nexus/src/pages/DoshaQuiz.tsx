@@ -0,0 +1,171 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useNavigate } from "react-router-dom";
+import { supabase } from "@/lib/supabase";
+import { Navbar } from "@/components/Navbar";
+import { DoshaRecommendations } from "@/components/DoshaRecommendations";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { useAuth } from "@/contexts/AuthContext";
+import { DOSHAS, DOSHA_INFO, DOSHA_QUESTIONS, scoreDoshaQuiz, type Dosha, type DoshaScores } from "@/lib/dosha";
+import { ArrowLeft, ArrowRight, RotateCcw } from "lucide-react";
+import { toast } from "sonner";
+
+const DoshaQuiz = () => {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const [step, setStep] = useState(0);
+  const [answers, setAnswers] = useState<Record<string, Dosha>>({});
+  const [result, setResult] = useState<{ scores: DoshaScores; dominant: Dosha } | null>(null);
+
+  const question = DOSHA_QUESTIONS[step];
+  const isLast = step === DOSHA_QUESTIONS.length - 1;
+
+  const saveResultMutation = useMutation({
+    mutationFn: async ({ scores, dominant }: { scores: DoshaScores; dominant: Dosha }) => {
+      if (!user) return;
+      const { error } = await supabase
+        .from("profiles")
+        .update({
+          dosha: dominant,
+          dosha_scores: scores,
+          dosha_assessed_at: new Date().toISOString(),
+        })
+        .eq("id", user.id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["profile"] });
+      if (user) toast.success("Your dosha has been saved to your profile");
+    },
+    onError: (err: Error) => {
+      toast.error(err?.message || "Failed to save your result");
+    },
+  });
+
+  const next = () => {
+    if (!isLast) {
+      setStep(step + 1);
+      return;
+    }
+
+    const scored = scoreDoshaQuiz(answers);
+    setResult(scored);
+    saveResultMutation.mutate(scored);
+  };
+
+  const restart = () => {
+    setAnswers({});
+    setStep(0);
+    setResult(null);
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navbar />
+      <div className="container mx-auto px-4 py-8 max-w-3xl">
+        <div className="text-center mb-8">
+          <h1 className="text-4xl font-bold mb-2">Dosha Quiz</h1>
+          <p className="text-muted-foreground">
+            Answer ten quick questions to learn your Ayurvedic constitution.
+          </p>
+        </div>
+
+        {!result ? (
+          <Card>
+            <CardHeader className="space-y-4">
+              <div className="flex items-center justify-between text-sm text-muted-foreground">
+                <span>
+                  Question {step + 1} of {DOSHA_QUESTIONS.length}
+                </span>
+                <span>{Math.round((step / DOSHA_QUESTIONS.length) * 100)}%</span>
+              </div>
+              <Progress value={(step / DOSHA_QUESTIONS.length) * 100} className="h-2" />
+              <CardTitle className="text-2xl">{question.question}</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <RadioGroup
+                value={answers[question.id] ?? ""}
+                onValueChange={(value) => setAnswers({ ...answers, [question.id]: value as Dosha })}
+                className="space-y-3"
+              >
+                {question.options.map((option) => (
+                  <Label
+                    key={option.dosha}
+                    htmlFor={`${question.id}-${option.dosha}`}
+                    className="flex items-center gap-3 rounded-md border p-4 cursor-pointer font-normal hover:bg-muted/50 has-[:checked]:border-primary"
+                  >
+                    <RadioGroupItem value={option.dosha} id={`${question.id}-${option.dosha}`} />
+                    {option.label}
+                  </Label>
+                ))}
+              </RadioGroup>
+
+              <div className="flex justify-between">
+                <Button variant="outline" onClick={() => setStep(step - 1)} disabled={step === 0}>
+                  <ArrowLeft className="mr-2 h-4 w-4" />
+                  Back
+                </Button>
+                <Button onClick={next} disabled={!answers[question.id]}>
+                  {isLast ? "See my result" : "Next"}
+                  {!isLast && <ArrowRight className="ml-2 h-4 w-4" />}
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-8">
+            <Card>
+              <CardHeader className="text-center">
+                <p className="text-sm text-muted-foreground">Your dominant dosha is</p>
+                <CardTitle className="text-4xl text-primary">{DOSHA_INFO[result.dominant].label}</CardTitle>
+                <p className="text-muted-foreground">{DOSHA_INFO[result.dominant].elements}</p>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                <p className="text-center">{DOSHA_INFO[result.dominant].description}</p>
+
+                <div className="space-y-3">
+                  {DOSHAS.map((dosha) => (
+                    <div key={dosha} className="space-y-1">
+                      <div className="flex justify-between text-sm">
+                        <span className="font-medium">{DOSHA_INFO[dosha].label}</span>
+                        <span className="text-muted-foreground">{result.scores[dosha]}%</span>
+                      </div>
+                      <Progress value={result.scores[dosha]} className="h-2" />
+                    </div>
+                  ))}
+                </div>
+
+                {!user && (
+                  <p className="text-sm text-center text-muted-foreground">
+                    <Button variant="link" className="h-auto p-0" onClick={() => navigate("/auth")}>
+                      Sign in
+                    </Button>{" "}
+                    and retake the quiz to save your result and get recommendations across the shop.
+                  </p>
+                )}
+
+                <div className="flex justify-center gap-4">
+                  <Button variant="outline" onClick={restart}>
+                    <RotateCcw className="mr-2 h-4 w-4" />
+                    Retake
+                  </Button>
+                  <Button onClick={() => navigate("/products")}>Shop Products</Button>
+                </div>
+              </CardContent>
+            </Card>
+
+            <DoshaRecommendations dosha={result.dominant} />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DoshaQuiz;
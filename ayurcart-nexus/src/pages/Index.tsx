@@ -2,11 +2,14 @@ import { useNavigate } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { Navbar } from "@/components/Navbar";
+import { DoshaRecommendations } from "@/components/DoshaRecommendations";
 import { Leaf, ShoppingBag, Heart, Shield } from "lucide-react";
 import heroImage from "@/assets/hero-ayurveda.jpg";
+import { useHead } from "@/hooks/use-head";
 
 const Index = () => {
   const navigate = useNavigate();
+  useHead({});
 
   const features = [
     {
@@ -65,6 +68,13 @@ const Index = () => {
         </div>
       </div>
 
+      {/* Dosha Recommendations */}
+      <div className="py-16">
+        <div className="container mx-auto px-4">
+          <DoshaRecommendations />
+        </div>
+      </div>
+
       {/* Features Section */}
       <div className="py-20 bg-gradient-to-b from-background to-muted/30">
         <div className="container mx-auto px-4">
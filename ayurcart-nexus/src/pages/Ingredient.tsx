@@ -0,0 +1,140 @@
+import { useQuery } from "@tanstack/react-query";
+import { useNavigate, useParams } from "react-router-dom";
+import { supabase } from "@/lib/supabase";
+import { Navbar } from "@/components/Navbar";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { ResponsiveImage } from "@/components/ResponsiveImage";
+import { ALLERGEN_LABELS } from "@/lib/ingredients";
+import { toDescription } from "@/lib/seo";
+import { useHead } from "@/hooks/use-head";
+import { AlertTriangle, Leaf } from "lucide-react";
+
+const Ingredient = () => {
+  const { slug } = useParams();
+  const navigate = useNavigate();
+
+  const { data: ingredient, isLoading } = useQuery({
+    queryKey: ["ingredient", slug],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("ingredients")
+        .select("*, product_ingredients(products(id, slug, name, price, image_url, is_active))")
+        .eq("slug", slug!)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!slug,
+  });
+
+  const products = (ingredient?.product_ingredients ?? []).flatMap((pi) =>
+    pi.products?.is_active ? [pi.products] : []
+  );
+
+  useHead({
+    title: ingredient?.name,
+    description: ingredient
+      ? toDescription(ingredient.description, `Ayurvedic products made with ${ingredient.name}.`)
+      : undefined,
+  });
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Navbar />
+        <div className="container mx-auto px-4 py-8 max-w-4xl">
+          <div className="animate-pulse space-y-4">
+            <div className="h-10 bg-muted rounded w-1/2" />
+            <div className="h-4 bg-muted rounded w-1/3" />
+            <div className="h-24 bg-muted rounded" />
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!ingredient) {
+    return (
+      <div className="min-h-screen bg-background">
+        <Navbar />
+        <div className="container mx-auto px-4 py-12 text-center">
+          <Leaf className="h-16 w-16 text-muted-foreground mx-auto mb-4" />
+          <p className="text-lg text-muted-foreground mb-4">Ingredient not found</p>
+          <Button onClick={() => navigate("/products")}>Back to Products</Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navbar />
+      <div className="container mx-auto px-4 py-8 max-w-4xl">
+        <div className="mb-8 space-y-2">
+          <h1 className="text-4xl font-bold">{ingredient.name}</h1>
+          {(ingredient.latin_name || ingredient.sanskrit_name) && (
+            <p className="text-muted-foreground">
+              {ingredient.latin_name && <em>{ingredient.latin_name}</em>}
+              {ingredient.latin_name && ingredient.sanskrit_name && " · "}
+              {ingredient.sanskrit_name && <>Sanskrit: {ingredient.sanskrit_name}</>}
+            </p>
+          )}
+          {ingredient.allergens.length > 0 && (
+            <div className="flex flex-wrap items-center gap-2 pt-2">
+              <AlertTriangle className="h-4 w-4 text-destructive" />
+              <span className="text-sm text-muted-foreground">Allergens:</span>
+              {ingredient.allergens.map((allergen) => (
+                <Badge key={allergen} variant="destructive">
+                  {ALLERGEN_LABELS[allergen]}
+                </Badge>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {ingredient.description && (
+          <p className="text-lg text-muted-foreground whitespace-pre-line mb-12">{ingredient.description}</p>
+        )}
+
+        <h2 className="text-2xl font-bold mb-6">Products with {ingredient.name}</h2>
+        {products.length === 0 ? (
+          <p className="text-muted-foreground">No products with this ingredient yet.</p>
+        ) : (
+          <div className="grid gap-6 grid-cols-2 md:grid-cols-3">
+            {products.map((product) => (
+              <Card
+                key={product.id}
+                className="overflow-hidden hover:shadow-[var(--shadow-card)] transition-shadow cursor-pointer"
+                onClick={() => navigate(`/products/${product.slug}`)}
+              >
+                <div className="h-36 bg-gradient-to-br from-primary/10 to-accent/10 flex items-center justify-center">
+                  {product.image_url ? (
+                    <ResponsiveImage
+                      src={product.image_url}
+                      sizes="(min-width: 768px) 300px, 50vw"
+                      alt={product.name}
+                      className="w-full h-full object-cover"
+                    />
+                  ) : (
+                    <Leaf className="h-12 w-12 text-primary" />
+                  )}
+                </div>
+                <CardHeader className="p-4 pb-2">
+                  <CardTitle className="text-base line-clamp-1">{product.name}</CardTitle>
+                </CardHeader>
+                <CardContent className="p-4 pt-0">
+                  <span className="font-bold text-primary">${product.price}</span>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Ingredient;
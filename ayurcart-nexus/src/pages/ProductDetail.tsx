@@ -1,27 +1,48 @@
-import { useParams, useNavigate } from "react-router-dom";
-import { useQuery } from "@tanstack/react-query";
+import { useEffect, useState } from "react";
+import { Link, useParams, useNavigate } from "react-router-dom";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { supabase } from "@/lib/supabase";
 import { Navbar } from "@/components/Navbar";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { Separator } from "@/components/ui/separator";
 import { Badge } from "@/components/ui/badge";
-import { ShoppingCart, Leaf, Package } from "lucide-react";
-import { toast } from "sonner";
-import { useAuth } from "@/contexts/AuthContext";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { ProductGallery } from "@/components/ProductGallery";
+import { ProductReviews } from "@/components/ProductReviews";
+import { FrequentlyBoughtTogether } from "@/components/FrequentlyBoughtTogether";
+import { StarRating } from "@/components/StarRating";
+import { WishlistButton } from "@/components/WishlistButton";
+import { NotifyMeButton } from "@/components/NotifyMeButton";
+import { DOSHA_INFO } from "@/lib/dosha";
+import { ALLERGEN_LABELS } from "@/lib/ingredients";
+import { productJsonLd, toDescription } from "@/lib/seo";
+import { ShoppingCart, Leaf, Package, AlertTriangle } from "lucide-react";
+import { useAvailableStock, useAvailableVariantStock } from "@/hooks/use-available-stock";
+import { useCart } from "@/hooks/use-cart";
+import { useHead } from "@/hooks/use-head";
+
+// Links from before products had slugs use the product id
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
 
 const ProductDetail = () => {
-  const { id } = useParams();
+  const { slug = "" } = useParams();
   const navigate = useNavigate();
-  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const { add } = useCart();
+  const isLegacyId = UUID_PATTERN.test(slug);
 
   const { data: product, isLoading } = useQuery({
-    queryKey: ["product", id],
+    queryKey: ["product", slug],
     queryFn: async () => {
       const { data, error } = await supabase
         .from("products")
-        .select("*")
-        .eq("id", id)
+        .select("*, product_variants(*), product_images(*), product_ingredients(ingredients(id, name, slug))")
+        .eq(isLegacyId ? "id" : "slug", slug)
+        // Admins and past buyers can read archived products, but the shop never shows them
+        .eq("is_active", true)
+        .order("sort_order", { referencedTable: "product_variants" })
+        .order("sort_order", { referencedTable: "product_images" })
         .single();
 
       if (error) throw error;
@@ -29,32 +50,61 @@ const ProductDetail = () => {
     },
   });
 
-  const addToCart = async () => {
-    if (!user) {
-      toast.error("Please sign in to add items to cart");
-      navigate("/auth");
-      return;
-    }
-
-    if (!product) return;
-
-    const { error } = await supabase
-      .from("cart_items")
-      .upsert({
-        user_id: user.id,
-        product_id: product.id,
-        quantity: 1,
-      }, {
-        onConflict: "user_id,product_id",
-      });
-
-    if (error) {
-      toast.error("Failed to add to cart");
-    } else {
-      toast.success("Added to cart!");
-    }
+  // Send old id links to the slug URL, reusing what was just fetched
+  useEffect(() => {
+    if (!isLegacyId || !product) return;
+    queryClient.setQueryData(["product", product.slug], product);
+    navigate(`/products/${product.slug}`, { replace: true });
+  }, [isLegacyId, product, queryClient, navigate]);
+
+  // Admins can read inactive variants too, so filter them out of the storefront
+  const variants = (product?.product_variants ?? []).filter((v) => v.is_active);
+  const [variantId, setVariantId] = useState<string | null>(null);
+
+  const linkedIngredients = (product?.product_ingredients ?? []).flatMap((pi) =>
+    pi.ingredients ? [pi.ingredients] : []
+  );
+
+  const { data: availableStock } = useAvailableStock(product ? [product.id] : []);
+  const { data: availableVariantStock } = useAvailableVariantStock(variants.map((v) => v.id));
+
+  const variantAvailable = (v: { id: string; stock_count: number }) =>
+    availableVariantStock?.[v.id] ?? v.stock_count;
+
+  // Until the shopper picks one, show the first size that can actually be bought
+  const variant =
+    variants.find((v) => v.id === variantId) ??
+    variants.find((v) => variantAvailable(v) > 0) ??
+    variants[0] ??
+    null;
+
+  const available = variant
+    ? variantAvailable(variant)
+    : product && variants.length === 0
+    ? availableStock?.[product.id] ?? product.stock_count
+    : 0;
+
+  const addToCart = () => {
+    if (product) add([{ product_id: product.id, variant_id: variant?.id ?? null, quantity: 1 }]);
   };
 
+  useHead({
+    title: product?.name,
+    description: product ? toDescription(product.description, product.name) : undefined,
+    image: product?.image_url,
+    type: "product",
+    jsonLd: product
+      ? productJsonLd(
+          {
+            ...product,
+            images: product.product_images.map((image) => image.url),
+            variants,
+          },
+          window.location.origin
+        )
+      : null,
+  });
+
   if (isLoading) {
     return (
       <div className="min-h-screen bg-background">
@@ -93,30 +143,67 @@ const ProductDetail = () => {
         </Button>
 
         <div className="grid gap-8 md:grid-cols-2">
-          <div className="rounded-lg overflow-hidden bg-gradient-to-br from-primary/10 to-accent/10 aspect-square flex items-center justify-center">
-            {product.image_url ? (
-              <img
-                src={product.image_url}
-                alt={product.name}
-                className="w-full h-full object-cover"
-              />
-            ) : (
-              <Leaf className="h-32 w-32 text-primary" />
-            )}
-          </div>
+          <ProductGallery images={product.product_images} productName={product.name} />
 
           <div className="space-y-6">
             <div>
               <div className="flex items-center justify-between mb-2">
                 <h1 className="text-4xl font-bold text-foreground">{product.name}</h1>
-                <Badge variant={product.stock_count > 0 ? "default" : "destructive"}>
+                <Badge variant={available > 0 ? "default" : "destructive"}>
                   <Package className="mr-1 h-3 w-3" />
-                  {product.stock_count > 0 ? `${product.stock_count} in stock` : "Out of stock"}
+                  {available > 0 ? `${available} in stock` : "Out of stock"}
                 </Badge>
               </div>
-              <p className="text-3xl font-bold text-primary">${product.price}</p>
+              {product.review_count > 0 && (
+                <div className="flex items-center gap-2 mb-2">
+                  <StarRating rating={product.average_rating ?? 0} />
+                  <span className="text-sm text-muted-foreground">
+                    {product.average_rating} ({product.review_count}{" "}
+                    {product.review_count === 1 ? "review" : "reviews"})
+                  </span>
+                </div>
+              )}
+              <p className="text-3xl font-bold text-primary">${variant?.price ?? product.price}</p>
+              {variant && (
+                <p className="text-sm text-muted-foreground mt-1">SKU: {variant.sku}</p>
+              )}
             </div>
 
+            {variants.length > 0 && (
+              <div>
+                <h3 className="text-sm font-medium mb-2">Size</h3>
+                <ToggleGroup
+                  type="single"
+                  variant="outline"
+                  value={variant?.id ?? ""}
+                  // Radix clears the value when the active item is clicked again; keep a size selected
+                  onValueChange={(value) => value && setVariantId(value)}
+                  className="flex-wrap justify-start"
+                >
+                  {variants.map((v) => (
+                    <ToggleGroupItem
+                      key={v.id}
+                      value={v.id}
+                      className={variantAvailable(v) === 0 ? "line-through opacity-60" : undefined}
+                    >
+                      {v.name}
+                    </ToggleGroupItem>
+                  ))}
+                </ToggleGroup>
+              </div>
+            )}
+
+            {product.doshas.length > 0 && (
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="text-sm text-muted-foreground">Suits:</span>
+                {product.doshas.map((dosha) => (
+                  <Badge key={dosha} variant="secondary">
+                    {DOSHA_INFO[dosha].label}
+                  </Badge>
+                ))}
+              </div>
+            )}
+
             <Separator />
 
             <div>
@@ -133,10 +220,27 @@ const ProductDetail = () => {
               </Card>
             )}
 
-            {product.ingredients && (
-              <div>
-                <h3 className="text-xl font-semibold mb-2">Ingredients</h3>
-                <p className="text-muted-foreground">{product.ingredients}</p>
+            {(product.ingredients || linkedIngredients.length > 0) && (
+              <div className="space-y-3">
+                <h3 className="text-xl font-semibold">Ingredients</h3>
+                {linkedIngredients.length > 0 && (
+                  <div className="flex flex-wrap gap-2">
+                    {linkedIngredients.map((ingredient) => (
+                      <Link key={ingredient.id} to={`/ingredients/${ingredient.slug}`}>
+                        <Badge variant="outline" className="hover:bg-muted">
+                          {ingredient.name}
+                        </Badge>
+                      </Link>
+                    ))}
+                  </div>
+                )}
+                {product.ingredients && <p className="text-muted-foreground">{product.ingredients}</p>}
+                {product.allergens.length > 0 && (
+                  <p className="flex items-center gap-2 text-sm font-medium text-destructive">
+                    <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+                    Contains: {product.allergens.map((allergen) => ALLERGEN_LABELS[allergen]).join(", ")}
+                  </p>
+                )}
               </div>
             )}
 
@@ -147,17 +251,36 @@ const ProductDetail = () => {
               </div>
             )}
 
-            <Button 
-              size="lg" 
-              className="w-full"
-              onClick={addToCart}
-              disabled={product.stock_count === 0}
-            >
-              <ShoppingCart className="mr-2 h-5 w-5" />
-              {product.stock_count === 0 ? "Out of Stock" : "Add to Cart"}
-            </Button>
+            <div className="flex gap-2">
+              {available === 0 ? (
+                <NotifyMeButton
+                  productId={product.id}
+                  variantId={variant?.id ?? null}
+                  size="lg"
+                  className="flex-1"
+                />
+              ) : (
+                <Button 
+                  size="lg" 
+                  className="flex-1"
+                  onClick={addToCart}
+                >
+                  <ShoppingCart className="mr-2 h-5 w-5" />
+                  Add to Cart
+                </Button>
+              )}
+              <WishlistButton productId={product.id} className="h-11 w-11 flex-shrink-0" />
+            </div>
           </div>
         </div>
+
+        <FrequentlyBoughtTogether
+          product={{ ...product, price: variant?.price ?? product.price }}
+          variantId={variant?.id ?? null}
+          available={available > 0}
+        />
+
+        <ProductReviews productId={product.id} />
       </div>
     </div>
   );
@@ -1,16 +1,66 @@
-import { useQuery } from "@tanstack/react-query";
+import { useEffect, useRef } from "react";
+import { keepPreviousData, useInfiniteQuery, useQuery } from "@tanstack/react-query";
 import { supabase } from "@/lib/supabase";
 import { Card, CardContent, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Navbar } from "@/components/Navbar";
-import { ShoppingCart, Leaf, MessageCircle } from "lucide-react";
-import { useNavigate } from "react-router-dom";
-import { toast } from "sonner";
-import { useAuth } from "@/contexts/AuthContext";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { ShoppingCart, Leaf, MessageCircle, Loader2 } from "lucide-react";
+import { useNavigate, useParams } from "react-router-dom";
+import { useAvailableStock } from "@/hooks/use-available-stock";
+import { useCart } from "@/hooks/use-cart";
+import { useCategories } from "@/hooks/use-categories";
+import { useIngredients } from "@/hooks/use-ingredients";
+import { getCategoryTrail, getChildren, getDescendantIds } from "@/lib/categories";
+import { CatalogBreadcrumb } from "@/components/CatalogBreadcrumb";
+import { CatalogFilters } from "@/components/CatalogFilters";
+import { CatalogPagination } from "@/components/CatalogPagination";
+import { StarRating } from "@/components/StarRating";
+import { WishlistButton } from "@/components/WishlistButton";
+import { NotifyMeButton } from "@/components/NotifyMeButton";
+import { DoshaRecommendations } from "@/components/DoshaRecommendations";
+import { ResponsiveImage } from "@/components/ResponsiveImage";
+import { CatalogSort, CatalogView, useCatalogFilters } from "@/hooks/use-catalog-filters";
+import { useHead } from "@/hooks/use-head";
+
+const PAGE_SIZE = 12;
+
+// Only what a product card renders; variant ids tell us whether a size has to be chosen first
+const PRODUCT_CARD_COLUMNS =
+  "id, slug, name, description, price, image_url, stock_count, average_rating, review_count, product_variants(id)";
+
+const SORT_ORDER: Record<CatalogSort, { column: "created_at" | "price" | "sold_count"; ascending: boolean }> = {
+  newest: { column: "created_at", ascending: false },
+  popular: { column: "sold_count", ascending: false },
+  price_asc: { column: "price", ascending: true },
+  price_desc: { column: "price", ascending: false },
+};
 
 const Products = () => {
   const navigate = useNavigate();
-  const { user } = useAuth();
+  const { slug } = useParams();
+  const { add } = useCart();
+  const { filters, setFilters, clearFilters, hasActiveFilters, page, setPage, pageUrl, searchParams } =
+    useCatalogFilters();
+
+  const { data: categories } = useCategories();
+  const { data: ingredients } = useIngredients();
+  const category = slug ? categories?.find((c) => c.slug === slug) : undefined;
+  const categoryIds = category ? getDescendantIds(categories, category.id) : null;
+  const trail = category ? getCategoryTrail(categories, category.id) : [];
+  const subcategories = categories ? getChildren(categories, category?.id ?? null) : [];
+
+  useHead({
+    title: category?.name || "Our Products",
+    description: category?.description || "Discover authentic Ayurvedic wellness products",
+  });
+
+  // Switching category keeps the current filters and sort
+  const catalogUrl = (categorySlug: string | null) => {
+    const path = categorySlug ? `/products/category/${categorySlug}` : "/products";
+    const query = searchParams.toString();
+    return query ? `${path}?${query}` : path;
+  };
 
   // WhatsApp Sri Lanka number
   const WHATSAPP_NUMBER = "94741167143";
@@ -21,138 +71,328 @@ const Products = () => {
     window.open(url, "_blank");
   };
 
-  const { data: products, isLoading } = useQuery({
-    queryKey: ["products"],
+  const { data: priceCeiling } = useQuery({
+    queryKey: ["products-price-ceiling"],
     queryFn: async () => {
       const { data, error } = await supabase
         .from("products")
-        .select("*")
+        .select("price")
         .eq("is_active", true)
-        .order("created_at", { ascending: false });
+        .order("price", { ascending: false })
+        .limit(1)
+        .maybeSingle();
 
       if (error) throw error;
-      return data;
+      return Math.ceil(data?.price ?? 0);
     },
   });
 
-  const addToCart = async (productId: string) => {
-    if (!user) {
-      toast.error("Please sign in to add items to cart");
-      navigate("/auth");
-      return;
+  // One page of the filtered catalog plus the total number of matches
+  const fetchProductsPage = async (pageIndex: number) => {
+    const { column, ascending } = SORT_ORDER[filters.sort];
+
+    let query = supabase
+      .from("products")
+      .select(PRODUCT_CARD_COLUMNS, { count: "exact" })
+      .eq("is_active", true)
+      .order(column, { ascending })
+      .order("created_at", { ascending: false })
+      .order("id", { ascending: true });
+
+    if (filters.minPrice !== null) query = query.gte("price", filters.minPrice);
+    if (filters.maxPrice !== null) query = query.lte("price", filters.maxPrice);
+    if (filters.excludeAllergens.length > 0) {
+      query = query.not("allergens", "ov", `{${filters.excludeAllergens.join(",")}}`);
     }
 
-    const { error } = await supabase
-      .from("cart_items")
-      .upsert(
-        {
-          user_id: user.id,
-          product_id: productId,
-          quantity: 1,
-        },
-        {
-          onConflict: "user_id,product_id",
-        }
-      );
-
-    if (error) {
-      toast.error("Failed to add to cart");
-    } else {
-      toast.success("Added to cart!");
+    // In stock means the same as on the cards: something left once other shoppers' reservations are held back
+    if (filters.inStock) {
+      const { data: inStock, error: inStockError } = await supabase
+        .from("product_availability")
+        .select("product_id")
+        .gt("available_stock", 0);
+
+      if (inStockError) throw inStockError;
+      query = query.in("id", inStock.flatMap((row) => (row.product_id ? [row.product_id] : [])));
     }
+
+    // Products linked to the chosen ingredient through the ingredients directory
+    if (filters.ingredient) {
+      const { data: links, error: linksError } = await supabase
+        .from("product_ingredients")
+        .select("product_id, ingredients!inner(slug)")
+        .eq("ingredients.slug", filters.ingredient);
+
+      if (linksError) throw linksError;
+      query = query.in("id", [...new Set(links.map((link) => link.product_id))]);
+    }
+
+    // Category pages include products from every nested subcategory
+    if (categoryIds) {
+      const { data: links, error: linksError } = await supabase
+        .from("product_categories")
+        .select("product_id")
+        .in("category_id", categoryIds);
+
+      if (linksError) throw linksError;
+      query = query.in("id", [...new Set(links.map((link) => link.product_id))]);
+    }
+
+    const { data, count, error } = await query.range(
+      pageIndex * PAGE_SIZE,
+      (pageIndex + 1) * PAGE_SIZE - 1
+    );
+
+    if (error) throw error;
+    return { products: data, count: count ?? 0 };
   };
 
+  const productsQueryKey = ["products", categoryIds, filters];
+  const isPaged = filters.view === "paged";
+
+  const infiniteProducts = useInfiniteQuery({
+    queryKey: productsQueryKey,
+    queryFn: ({ pageParam }) => fetchProductsPage(pageParam),
+    initialPageParam: 0,
+    getNextPageParam: (lastPage, allPages) =>
+      allPages.length * PAGE_SIZE < lastPage.count ? allPages.length : undefined,
+    enabled: !isPaged && (!slug || !!category),
+  });
+
+  const pagedProducts = useQuery({
+    queryKey: [...productsQueryKey, page],
+    queryFn: () => fetchProductsPage(page - 1),
+    enabled: isPaged && (!slug || !!category),
+    placeholderData: keepPreviousData,
+  });
+
+  const products = isPaged
+    ? pagedProducts.data?.products
+    : infiniteProducts.data?.pages.flatMap((p) => p.products);
+  const totalCount = (isPaged ? pagedProducts.data?.count : infiniteProducts.data?.pages[0]?.count) ?? 0;
+  const isLoading = isPaged ? pagedProducts.isLoading : infiniteProducts.isLoading;
+
+  // Load the next page as the sentinel below the grid scrolls into view
+  const loadMoreRef = useRef<HTMLDivElement>(null);
+  const { hasNextPage, isFetchingNextPage, fetchNextPage } = infiniteProducts;
+
+  useEffect(() => {
+    const node = loadMoreRef.current;
+    if (!node || isPaged || !hasNextPage) return;
+
+    const observer = new IntersectionObserver(
+      ([entry]) => {
+        if (entry.isIntersecting && !isFetchingNextPage) fetchNextPage();
+      },
+      { rootMargin: "400px" }
+    );
+
+    observer.observe(node);
+    return () => observer.disconnect();
+  }, [isPaged, hasNextPage, isFetchingNextPage, fetchNextPage]);
+
+  const { data: availableStock } = useAvailableStock(products?.map((p) => p.id) ?? []);
+
+  const addToCart = (productId: string) => add([{ product_id: productId, variant_id: null, quantity: 1 }]);
+
   return (
     <div className="min-h-screen bg-background">
       <Navbar />
       <div className="container mx-auto px-4 py-8">
+        <CatalogBreadcrumb trail={trail} />
+
         <div className="mb-8">
-          <h1 className="text-4xl font-bold text-foreground mb-2">Our Products</h1>
-          <p className="text-muted-foreground">Discover authentic Ayurvedic wellness products</p>
+          <h1 className="text-4xl font-bold text-foreground mb-2">
+            {category?.name || "Our Products"}
+          </h1>
+          <p className="text-muted-foreground">
+            {category?.description || "Discover authentic Ayurvedic wellness products"}
+          </p>
         </div>
 
-        {isLoading ? (
-          <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
-            {[1, 2, 3, 4, 5, 6].map((i) => (
-              <Card key={i} className="animate-pulse">
-                <div className="h-48 bg-muted" />
-                <CardHeader>
-                  <div className="h-6 bg-muted rounded" />
-                </CardHeader>
-                <CardContent>
-                  <div className="h-4 bg-muted rounded mb-2" />
-                  <div className="h-4 bg-muted rounded w-2/3" />
-                </CardContent>
-              </Card>
-            ))}
-          </div>
-        ) : products && products.length > 0 ? (
-          <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
-            {products.map((product) => (
-              <Card
-                key={product.id}
-                className="overflow-hidden hover:shadow-[var(--shadow-card)] transition-shadow cursor-pointer"
-                onClick={() => navigate(`/products/${product.id}`)}
-              >
-                <div className="h-48 bg-gradient-to-br from-primary/10 to-accent/10 flex items-center justify-center">
-                  {product.image_url ? (
-                    <img
-                      src={product.image_url}
-                      alt={product.name}
-                      className="w-full h-full object-cover"
-                    />
-                  ) : (
-                    <Leaf className="h-16 w-16 text-primary" />
-                  )}
-                </div>
-                <CardHeader>
-                  <CardTitle className="line-clamp-1">{product.name}</CardTitle>
-                </CardHeader>
-                <CardContent>
-                  <p className="text-sm text-muted-foreground line-clamp-2 mb-4">
-                    {product.description}
-                  </p>
-                  <div className="flex items-center justify-between">
-                    <span className="text-2xl font-bold text-primary">
-                      ${product.price}
-                    </span>
-                    <span className="text-sm text-muted-foreground">
-                      Stock: {product.stock_count}
-                    </span>
-                  </div>
-                </CardContent>
+        <div className="grid gap-8 lg:grid-cols-4">
+          <aside className="lg:col-span-1">
+            <CatalogFilters
+              filters={filters}
+              priceCeiling={priceCeiling ?? 0}
+              categories={categories ?? []}
+              ingredients={ingredients ?? []}
+              categorySlug={category?.slug}
+              hasActiveFilters={hasActiveFilters}
+              onChange={setFilters}
+              onCategoryChange={(categorySlug) => navigate(catalogUrl(categorySlug))}
+              onClear={clearFilters}
+            />
+          </aside>
 
-                {/* Updated CardFooter with Add to Cart + Message Button */}
-                <CardFooter className="flex gap-2">
-                  <Button
-                    className="w-full"
-                    onClick={(e) => {
-                      e.stopPropagation();
-                      addToCart(product.id);
-                    }}
-                    disabled={product.stock_count === 0}
-                  >
-                    <ShoppingCart className="mr-2 h-4 w-4" />
-                    {product.stock_count === 0 ? "Out of Stock" : "Add to Cart"}
-                  </Button>
+          <div className="lg:col-span-3">
+            {!category && !hasActiveFilters && page === 1 && (
+              <DoshaRecommendations showQuizPrompt={false} className="mb-10" />
+            )}
 
+            {subcategories.length > 0 && (
+              <div className="flex flex-wrap gap-2 mb-8">
+                {subcategories.map((child) => (
                   <Button
-                    className="w-full bg-green-600 hover:bg-green-700 text-white flex items-center justify-center"
-                    onClick={handleWhatsApp}
+                    key={child.id}
+                    variant="outline"
+                    size="sm"
+                    onClick={() => navigate(catalogUrl(child.slug))}
                   >
-                    <MessageCircle className="mr-2 h-4 w-4" />
-                    Message
+                    {child.name}
                   </Button>
-                </CardFooter>
-              </Card>
-            ))}
-          </div>
-        ) : (
-          <div className="text-center py-12">
-            <Leaf className="h-16 w-16 text-muted-foreground mx-auto mb-4" />
-            <p className="text-lg text-muted-foreground">No products available yet</p>
+                ))}
+              </div>
+            )}
+
+            <div className="flex items-center justify-between mb-4">
+              <p className="text-sm text-muted-foreground">
+                {isLoading ? "Loading products..." : `${totalCount} ${totalCount === 1 ? "product" : "products"}`}
+              </p>
+              <ToggleGroup
+                type="single"
+                size="sm"
+                variant="outline"
+                value={filters.view}
+                onValueChange={(value) => value && setFilters({ view: value as CatalogView })}
+              >
+                <ToggleGroupItem value="infinite">Scroll</ToggleGroupItem>
+                <ToggleGroupItem value="paged">Pages</ToggleGroupItem>
+              </ToggleGroup>
+            </div>
+
+            {slug && categories && !category ? (
+              <div className="text-center py-12">
+                <Leaf className="h-16 w-16 text-muted-foreground mx-auto mb-4" />
+                <p className="text-lg text-muted-foreground mb-4">Category not found</p>
+                <Button onClick={() => navigate("/products")}>Back to Products</Button>
+              </div>
+            ) : isLoading || (slug && !categories) ? (
+              <div className="grid gap-6 md:grid-cols-2 xl:grid-cols-3">
+                {[1, 2, 3, 4, 5, 6].map((i) => (
+                  <Card key={i} className="animate-pulse">
+                    <div className="h-48 bg-muted" />
+                    <CardHeader>
+                      <div className="h-6 bg-muted rounded" />
+                    </CardHeader>
+                    <CardContent>
+                      <div className="h-4 bg-muted rounded mb-2" />
+                      <div className="h-4 bg-muted rounded w-2/3" />
+                    </CardContent>
+                  </Card>
+                ))}
+              </div>
+            ) : products && products.length > 0 ? (
+              <>
+                <div className="grid gap-6 md:grid-cols-2 xl:grid-cols-3">
+                  {products.map((product) => {
+                    const available = availableStock?.[product.id] ?? product.stock_count;
+                    const hasVariants = product.product_variants.length > 0;
+
+                    return (
+                      <Card
+                        key={product.id}
+                        className="overflow-hidden hover:shadow-[var(--shadow-card)] transition-shadow cursor-pointer"
+                        onClick={() => navigate(`/products/${product.slug}`)}
+                      >
+                        <div className="relative h-48 bg-gradient-to-br from-primary/10 to-accent/10 flex items-center justify-center">
+                          {product.image_url ? (
+                            <ResponsiveImage
+                              src={product.image_url}
+                              sizes="(min-width: 1280px) 25vw, (min-width: 768px) 40vw, 100vw"
+                              alt={product.name}
+                              className="w-full h-full object-cover"
+                            />
+                          ) : (
+                            <Leaf className="h-16 w-16 text-primary" />
+                          )}
+                          <WishlistButton productId={product.id} className="absolute right-3 top-3 bg-background/90" />
+                        </div>
+                        <CardHeader>
+                          <CardTitle className="line-clamp-1">{product.name}</CardTitle>
+                          {product.review_count > 0 && (
+                            <div className="flex items-center gap-2">
+                              <StarRating rating={product.average_rating ?? 0} />
+                              <span className="text-sm text-muted-foreground">({product.review_count})</span>
+                            </div>
+                          )}
+                        </CardHeader>
+                        <CardContent>
+                          <p className="text-sm text-muted-foreground line-clamp-2 mb-4">
+                            {product.description}
+                          </p>
+                          <div className="flex items-center justify-between">
+                            <span className="text-2xl font-bold text-primary">
+                              {hasVariants && <span className="text-sm font-normal text-muted-foreground">From </span>}
+                              ${product.price}
+                            </span>
+                            <span className="text-sm text-muted-foreground">
+                              Stock: {available}
+                            </span>
+                          </div>
+                        </CardContent>
+
+                        {/* Updated CardFooter with Add to Cart + Message Button */}
+                        <CardFooter className="flex gap-2">
+                          {available === 0 ? (
+                            <NotifyMeButton productId={product.id} className="w-full" />
+                          ) : (
+                            <Button
+                              className="w-full"
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                if (hasVariants) navigate(`/products/${product.slug}`);
+                                else addToCart(product.id);
+                              }}
+                            >
+                              <ShoppingCart className="mr-2 h-4 w-4" />
+                              {hasVariants ? "Choose Size" : "Add to Cart"}
+                            </Button>
+                          )}
+
+                          <Button
+                            className="w-full bg-green-600 hover:bg-green-700 text-white flex items-center justify-center"
+                            onClick={handleWhatsApp}
+                          >
+                            <MessageCircle className="mr-2 h-4 w-4" />
+                            Message
+                          </Button>
+                        </CardFooter>
+                      </Card>
+                    );
+                  })}
+                </div>
+
+                {isPaged ? (
+                  <CatalogPagination
+                    page={page}
+                    pageCount={Math.ceil(totalCount / PAGE_SIZE)}
+                    pageUrl={pageUrl}
+                    onPageChange={(nextPage) => {
+                      setPage(nextPage);
+                      window.scrollTo({ top: 0, behavior: "smooth" });
+                    }}
+                  />
+                ) : (
+                  <div ref={loadMoreRef} className="flex justify-center py-8">
+                    {isFetchingNextPage && <Loader2 className="h-6 w-6 animate-spin text-primary" />}
+                  </div>
+                )}
+              </>
+            ) : (
+              <div className="text-center py-12">
+                <Leaf className="h-16 w-16 text-muted-foreground mx-auto mb-4" />
+                <p className="text-lg text-muted-foreground">
+                  {hasActiveFilters
+                    ? "No products match these filters"
+                    : category
+                      ? "No products in this category yet"
+                      : "No products available yet"}
+                </p>
+              </div>
+            )}
           </div>
-        )}
+        </div>
       </div>
     </div>
   );
@@ -0,0 +1,134 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useNavigate, useSearchParams } from "react-router-dom";
+import { supabase } from "@/lib/supabase";
+import { Navbar } from "@/components/Navbar";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ResponsiveImage } from "@/components/ResponsiveImage";
+import { Leaf, Search as SearchIcon } from "lucide-react";
+
+const Search = () => {
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const query = searchParams.get("q")?.trim() || "";
+  const [term, setTerm] = useState(query);
+
+  // Keep the box in sync when a new search comes in from the Navbar
+  useEffect(() => {
+    setTerm(query);
+  }, [query]);
+
+  const { data: results, isLoading } = useQuery({
+    queryKey: ["search", query],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .rpc("search_products", { search_query: query })
+        .select("id, slug, name, description, price, image_url, stock_count");
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: query.length > 0,
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (term.trim()) setSearchParams({ q: term.trim() });
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navbar />
+      <div className="container mx-auto px-4 py-8">
+        <div className="mb-8">
+          <h1 className="text-4xl font-bold text-foreground mb-4">Search</h1>
+          <form onSubmit={handleSubmit} className="flex gap-2 max-w-xl">
+            <Input
+              value={term}
+              onChange={(e) => setTerm(e.target.value)}
+              placeholder="Search by name, benefit or ingredient"
+            />
+            <Button type="submit">
+              <SearchIcon className="mr-2 h-4 w-4" />
+              Search
+            </Button>
+          </form>
+          {query && results && (
+            <p className="text-muted-foreground mt-4">
+              {results.length} {results.length === 1 ? "result" : "results"} for "{query}"
+            </p>
+          )}
+        </div>
+
+        {!query ? (
+          <div className="text-center py-12">
+            <SearchIcon className="h-16 w-16 text-muted-foreground mx-auto mb-4" />
+            <p className="text-lg text-muted-foreground">Search our Ayurvedic products</p>
+          </div>
+        ) : isLoading ? (
+          <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
+            {[1, 2, 3].map((i) => (
+              <Card key={i} className="animate-pulse">
+                <div className="h-48 bg-muted" />
+                <CardHeader>
+                  <div className="h-6 bg-muted rounded" />
+                </CardHeader>
+                <CardContent>
+                  <div className="h-4 bg-muted rounded mb-2" />
+                  <div className="h-4 bg-muted rounded w-2/3" />
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        ) : results && results.length > 0 ? (
+          <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
+            {results.map((product) => (
+              <Card
+                key={product.id}
+                className="overflow-hidden hover:shadow-[var(--shadow-card)] transition-shadow cursor-pointer"
+                onClick={() => navigate(`/products/${product.slug}`)}
+              >
+                <div className="h-48 bg-gradient-to-br from-primary/10 to-accent/10 flex items-center justify-center">
+                  {product.image_url ? (
+                    <ResponsiveImage
+                      src={product.image_url}
+                      sizes="(min-width: 1024px) 33vw, (min-width: 768px) 50vw, 100vw"
+                      alt={product.name}
+                      className="w-full h-full object-cover"
+                    />
+                  ) : (
+                    <Leaf className="h-16 w-16 text-primary" />
+                  )}
+                </div>
+                <CardHeader>
+                  <CardTitle className="line-clamp-1">{product.name}</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <p className="text-sm text-muted-foreground line-clamp-2 mb-4">
+                    {product.description}
+                  </p>
+                  <div className="flex items-center justify-between">
+                    <span className="text-2xl font-bold text-primary">${product.price}</span>
+                    <span className="text-sm text-muted-foreground">
+                      {product.stock_count > 0 ? "In stock" : "Out of stock"}
+                    </span>
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        ) : (
+          <div className="text-center py-12">
+            <Leaf className="h-16 w-16 text-muted-foreground mx-auto mb-4" />
+            <p className="text-lg text-muted-foreground mb-4">No products matched "{query}"</p>
+            <Button onClick={() => navigate("/products")}>Browse all products</Button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Search;
@@ -0,0 +1,106 @@
+import { useQuery } from "@tanstack/react-query";
+import { useNavigate, useParams } from "react-router-dom";
+import { supabase } from "@/lib/supabase";
+import { Navbar } from "@/components/Navbar";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { ResponsiveImage } from "@/components/ResponsiveImage";
+import { Heart, Leaf } from "lucide-react";
+
+const SharedWishlist = () => {
+  const { token } = useParams();
+  const navigate = useNavigate();
+
+  const { data: owner } = useQuery({
+    queryKey: ["shared-wishlist-owner", token],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc("shared_wishlist_owner", { _token: token! });
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!token,
+  });
+
+  const { data: products, isLoading } = useQuery({
+    queryKey: ["shared-wishlist", token],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .rpc("shared_wishlist_products", { _token: token! })
+        .select("id, slug, name, description, price, image_url, stock_count");
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!token,
+  });
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navbar />
+      <div className="container mx-auto px-4 py-8">
+        <div className="mb-8">
+          <h1 className="text-4xl font-bold">{owner ? `${owner}'s Wishlist` : "Shared Wishlist"}</h1>
+          <p className="text-muted-foreground">Natural picks someone wanted to share with you.</p>
+        </div>
+
+        {isLoading ? (
+          <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
+            {[1, 2, 3].map((i) => (
+              <Card key={i} className="animate-pulse">
+                <div className="h-48 bg-muted" />
+                <CardHeader>
+                  <div className="h-6 bg-muted rounded" />
+                </CardHeader>
+              </Card>
+            ))}
+          </div>
+        ) : !products || products.length === 0 ? (
+          <Card>
+            <CardContent className="p-12 text-center">
+              <Heart className="h-16 w-16 text-muted-foreground mx-auto mb-4" />
+              <h2 className="text-2xl font-semibold mb-2">This wishlist is empty or no longer shared</h2>
+              <Button onClick={() => navigate("/products")}>Browse Products</Button>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
+            {products.map((product) => (
+              <Card
+                key={product.id}
+                className="overflow-hidden hover:shadow-[var(--shadow-card)] transition-shadow cursor-pointer"
+                onClick={() => navigate(`/products/${product.slug}`)}
+              >
+                <div className="h-48 bg-gradient-to-br from-primary/10 to-accent/10 flex items-center justify-center">
+                  {product.image_url ? (
+                    <ResponsiveImage
+                      src={product.image_url}
+                      sizes="(min-width: 1024px) 33vw, (min-width: 768px) 50vw, 100vw"
+                      alt={product.name}
+                      className="w-full h-full object-cover"
+                    />
+                  ) : (
+                    <Leaf className="h-16 w-16 text-primary" />
+                  )}
+                </div>
+                <CardHeader>
+                  <CardTitle className="line-clamp-1">{product.name}</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <p className="text-sm text-muted-foreground line-clamp-2 mb-4">{product.description}</p>
+                  <div className="flex items-center justify-between">
+                    <span className="text-2xl font-bold text-primary">${product.price}</span>
+                    {product.stock_count === 0 && (
+                      <span className="text-sm text-muted-foreground">Out of stock</span>
+                    )}
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SharedWishlist;
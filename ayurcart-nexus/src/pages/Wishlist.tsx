@@ -0,0 +1,254 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useNavigate } from "react-router-dom";
+import { supabase } from "@/lib/supabase";
+import { Navbar } from "@/components/Navbar";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { ResponsiveImage } from "@/components/ResponsiveImage";
+import { useAuth } from "@/contexts/AuthContext";
+import { useCart } from "@/hooks/use-cart";
+import { Copy, Heart, Leaf, Link2Off, MessageCircle, ShoppingCart, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+
+const Wishlist = () => {
+  const { user } = useAuth();
+  const { add } = useCart();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+
+  const { data: items, isLoading } = useQuery({
+    queryKey: ["wishlist", user?.id],
+    queryFn: async () => {
+      if (!user) return [];
+      const { data, error } = await supabase
+        .from("wishlist_items")
+        .select(`
+          id,
+          products (id, slug, name, description, price, image_url, stock_count, is_active, product_variants (id))
+        `)
+        .eq("user_id", user.id)
+        .order("created_at", { ascending: false });
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!user,
+  });
+
+  const { data: share } = useQuery({
+    queryKey: ["wishlist-share", user?.id],
+    queryFn: async () => {
+      if (!user) return null;
+      const { data, error } = await supabase
+        .from("wishlist_shares")
+        .select("token")
+        .eq("user_id", user.id)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!user,
+  });
+
+  const shareUrl = share ? `${window.location.origin}/wishlist/shared/${share.token}` : null;
+
+  const removeMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from("wishlist_items").delete().eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["wishlist"] });
+      queryClient.invalidateQueries({ queryKey: ["wishlist-ids"] });
+      toast.success("Removed from wishlist");
+    },
+  });
+
+  const createShareMutation = useMutation({
+    mutationFn: async () => {
+      if (!user) throw new Error("Not authenticated");
+      const { data, error } = await supabase
+        .from("wishlist_shares")
+        .insert({ user_id: user.id })
+        .select("token")
+        .single();
+
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["wishlist-share"] });
+    },
+    onError: (err: Error) => {
+      toast.error(err?.message || "Failed to create share link");
+    },
+  });
+
+  const revokeShareMutation = useMutation({
+    mutationFn: async () => {
+      if (!user) return;
+      const { error } = await supabase.from("wishlist_shares").delete().eq("user_id", user.id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["wishlist-share"] });
+      toast.success("Share link turned off");
+    },
+  });
+
+  const addToCart = (productId: string) => add([{ product_id: productId, variant_id: null, quantity: 1 }]);
+
+  const shareOnWhatsApp = (url: string) => {
+    const message = `Here's my Aagna Naturals wishlist 🌿\n${url}`;
+    window.open(`https://wa.me/?text=${encodeURIComponent(message)}`, "_blank");
+  };
+
+  if (!user) {
+    navigate("/auth");
+    return null;
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navbar />
+      <div className="container mx-auto px-4 py-8">
+        <h1 className="text-4xl font-bold mb-8">My Wishlist</h1>
+
+        {items && items.length > 0 && (
+          <Card className="mb-8">
+            <CardContent className="p-6 space-y-3">
+              <h2 className="font-semibold">Share your wishlist</h2>
+              {shareUrl ? (
+                <>
+                  <div className="flex gap-2">
+                    <Input readOnly value={shareUrl} onFocus={(e) => e.target.select()} />
+                    <Button
+                      variant="outline"
+                      onClick={async () => {
+                        await navigator.clipboard.writeText(shareUrl);
+                        toast.success("Link copied");
+                      }}
+                    >
+                      <Copy className="h-4 w-4" />
+                    </Button>
+                  </div>
+                  <div className="flex flex-wrap gap-2">
+                    <Button
+                      className="bg-green-600 hover:bg-green-700 text-white"
+                      onClick={() => shareOnWhatsApp(shareUrl)}
+                    >
+                      <MessageCircle className="mr-2 h-4 w-4" />
+                      Share on WhatsApp
+                    </Button>
+                    <Button variant="ghost" onClick={() => revokeShareMutation.mutate()}>
+                      <Link2Off className="mr-2 h-4 w-4" />
+                      Stop sharing
+                    </Button>
+                  </div>
+                </>
+              ) : (
+                <>
+                  <p className="text-sm text-muted-foreground">
+                    Create a read-only link that anyone can open, no account needed.
+                  </p>
+                  <Button onClick={() => createShareMutation.mutate()} disabled={createShareMutation.isPending}>
+                    Create share link
+                  </Button>
+                </>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
+        {isLoading ? (
+          <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
+            {[1, 2, 3].map((i) => (
+              <Card key={i} className="animate-pulse">
+                <div className="h-48 bg-muted" />
+                <CardHeader>
+                  <div className="h-6 bg-muted rounded" />
+                </CardHeader>
+              </Card>
+            ))}
+          </div>
+        ) : !items || items.length === 0 ? (
+          <Card>
+            <CardContent className="p-12 text-center">
+              <Heart className="h-16 w-16 text-muted-foreground mx-auto mb-4" />
+              <h2 className="text-2xl font-semibold mb-2">Your wishlist is empty</h2>
+              <p className="text-muted-foreground mb-6">Tap the heart on any product to save it for later.</p>
+              <Button onClick={() => navigate("/products")}>Browse Products</Button>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
+            {items.map(({ id, products: product }) => {
+              if (!product?.is_active) return null;
+              const hasVariants = product.product_variants.length > 0;
+
+              return (
+                <Card
+                  key={id}
+                  className="overflow-hidden hover:shadow-[var(--shadow-card)] transition-shadow cursor-pointer"
+                  onClick={() => navigate(`/products/${product.slug}`)}
+                >
+                  <div className="h-48 bg-gradient-to-br from-primary/10 to-accent/10 flex items-center justify-center">
+                    {product.image_url ? (
+                      <ResponsiveImage
+                        src={product.image_url}
+                        sizes="(min-width: 1024px) 33vw, (min-width: 768px) 50vw, 100vw"
+                        alt={product.name}
+                        className="w-full h-full object-cover"
+                      />
+                    ) : (
+                      <Leaf className="h-16 w-16 text-primary" />
+                    )}
+                  </div>
+                  <CardHeader>
+                    <CardTitle className="line-clamp-1">{product.name}</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <p className="text-sm text-muted-foreground line-clamp-2 mb-4">{product.description}</p>
+                    <span className="text-2xl font-bold text-primary">
+                      {hasVariants && <span className="text-sm font-normal text-muted-foreground">From </span>}$
+                      {product.price}
+                    </span>
+                  </CardContent>
+                  <CardFooter className="flex gap-2">
+                    <Button
+                      className="w-full"
+                      disabled={product.stock_count === 0}
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        if (hasVariants) navigate(`/products/${product.slug}`);
+                        else addToCart(product.id);
+                      }}
+                    >
+                      <ShoppingCart className="mr-2 h-4 w-4" />
+                      {product.stock_count === 0 ? "Out of Stock" : hasVariants ? "Choose Size" : "Add to Cart"}
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="icon"
+                      className="text-destructive hover:text-destructive flex-shrink-0"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        removeMutation.mutate(id);
+                      }}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </CardFooter>
+                </Card>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Wishlist;
@@ -0,0 +1,65 @@
+-- Orders are now only written through place_order(), so clients can no
+-- longer insert orders or order items (and their prices) directly
+DROP POLICY IF EXISTS "Users can create own orders" ON public.orders;
+DROP POLICY IF EXISTS "Users can create order items" ON public.order_items;
+
+-- Place an order from the caller's cart in a single transaction
+CREATE OR REPLACE FUNCTION public.place_order()
+RETURNS public.orders
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+  _order public.orders;
+  _product_name TEXT;
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  -- Lock the products in the cart so stock cannot change underneath us
+  PERFORM 1
+  FROM public.products p
+  JOIN public.cart_items c ON c.product_id = p.id
+  WHERE c.user_id = _user_id
+  FOR UPDATE OF p;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Your cart is empty';
+  END IF;
+
+  SELECT p.name INTO _product_name
+  FROM public.cart_items c
+  JOIN public.products p ON p.id = c.product_id
+  WHERE c.user_id = _user_id
+    AND (p.is_active IS NOT TRUE OR p.stock_count < c.quantity)
+  LIMIT 1;
+
+  IF _product_name IS NOT NULL THEN
+    RAISE EXCEPTION 'Not enough stock for %', _product_name;
+  END IF;
+
+  -- Prices always come from the products table, never from the client
+  INSERT INTO public.orders (user_id, total_amount, payment_status, delivery_status)
+  SELECT _user_id, SUM(p.price * c.quantity), 'completed', 'processing'
+  FROM public.cart_items c
+  JOIN public.products p ON p.id = c.product_id
+  WHERE c.user_id = _user_id
+  RETURNING * INTO _order;
+
+  INSERT INTO public.order_items (order_id, product_id, product_name, quantity, price)
+  SELECT _order.id, p.id, p.name, c.quantity, p.price
+  FROM public.cart_items c
+  JOIN public.products p ON p.id = c.product_id
+  WHERE c.user_id = _user_id;
+
+  DELETE FROM public.cart_items WHERE user_id = _user_id;
+
+  RETURN _order;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.place_order() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.place_order() TO authenticated;
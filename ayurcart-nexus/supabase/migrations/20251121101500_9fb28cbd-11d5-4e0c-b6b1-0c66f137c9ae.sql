@@ -0,0 +1,234 @@
+-- Create store_settings table
+CREATE TABLE public.store_settings (
+  key TEXT PRIMARY KEY,
+  value JSONB NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE public.store_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view store settings"
+  ON public.store_settings FOR SELECT
+  USING (true);
+
+CREATE POLICY "Admins can insert store settings"
+  ON public.store_settings FOR INSERT
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can update store settings"
+  ON public.store_settings FOR UPDATE
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_store_settings_updated_at
+  BEFORE UPDATE ON public.store_settings
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- How long checkout holds stock before releasing it
+INSERT INTO public.store_settings (key, value)
+VALUES ('stock_reservation_minutes', '15');
+
+-- Create stock_reservations table
+CREATE TABLE public.stock_reservations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  product_id UUID REFERENCES public.products(id) ON DELETE CASCADE NOT NULL,
+  quantity INTEGER NOT NULL CHECK (quantity > 0),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(user_id, product_id)
+);
+
+CREATE INDEX stock_reservations_product_id_idx
+  ON public.stock_reservations (product_id, expires_at);
+
+ALTER TABLE public.stock_reservations ENABLE ROW LEVEL SECURITY;
+
+-- Reservations are only written by reserve_cart_stock() and place_order()
+CREATE POLICY "Users can view own reservations"
+  ON public.stock_reservations FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- Stock left for the caller once other shoppers' live reservations are held back
+CREATE VIEW public.product_availability AS
+SELECT
+  p.id AS product_id,
+  GREATEST(
+    p.stock_count - COALESCE(
+      SUM(r.quantity) FILTER (WHERE r.user_id IS DISTINCT FROM auth.uid()),
+      0
+    ),
+    0
+  )::INTEGER AS available_stock
+FROM public.products p
+LEFT JOIN public.stock_reservations r
+  ON r.product_id = p.id
+  AND r.expires_at > NOW()
+WHERE p.is_active = true
+GROUP BY p.id;
+
+GRANT SELECT ON public.product_availability TO anon, authenticated;
+
+-- Reserve the caller's cart for the configured number of minutes
+CREATE OR REPLACE FUNCTION public.reserve_cart_stock()
+RETURNS TIMESTAMP WITH TIME ZONE
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+  _expires_at TIMESTAMP WITH TIME ZONE;
+  _product_name TEXT;
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT NOW() + make_interval(mins => COALESCE((value #>> '{}')::INTEGER, 15))
+  INTO _expires_at
+  FROM public.store_settings
+  WHERE key = 'stock_reservation_minutes';
+
+  _expires_at := COALESCE(_expires_at, NOW() + INTERVAL '15 minutes');
+
+  PERFORM 1
+  FROM public.products p
+  JOIN public.cart_items c ON c.product_id = p.id
+  WHERE c.user_id = _user_id
+  FOR UPDATE OF p;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Your cart is empty';
+  END IF;
+
+  DELETE FROM public.stock_reservations
+  WHERE user_id = _user_id OR expires_at <= NOW();
+
+  SELECT p.name INTO _product_name
+  FROM public.cart_items c
+  JOIN public.products p ON p.id = c.product_id
+  WHERE c.user_id = _user_id
+    AND (
+      p.is_active IS NOT TRUE
+      OR p.stock_count - COALESCE((
+        SELECT SUM(r.quantity)
+        FROM public.stock_reservations r
+        WHERE r.product_id = p.id
+      ), 0) < c.quantity
+    )
+  LIMIT 1;
+
+  IF _product_name IS NOT NULL THEN
+    RAISE EXCEPTION 'Not enough stock for %', _product_name;
+  END IF;
+
+  INSERT INTO public.stock_reservations (user_id, product_id, quantity, expires_at)
+  SELECT _user_id, c.product_id, c.quantity, _expires_at
+  FROM public.cart_items c
+  WHERE c.user_id = _user_id;
+
+  RETURN _expires_at;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.reserve_cart_stock() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.reserve_cart_stock() TO authenticated;
+
+-- Placing an order now commits the caller's reservation into stock_count
+CREATE OR REPLACE FUNCTION public.place_order()
+RETURNS public.orders
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+  _order public.orders;
+  _product_name TEXT;
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  -- Lock the products in the cart so stock cannot change underneath us
+  PERFORM 1
+  FROM public.products p
+  JOIN public.cart_items c ON c.product_id = p.id
+  WHERE c.user_id = _user_id
+  FOR UPDATE OF p;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Your cart is empty';
+  END IF;
+
+  -- Stock held by other shoppers' live reservations is not available to us
+  SELECT p.name INTO _product_name
+  FROM public.cart_items c
+  JOIN public.products p ON p.id = c.product_id
+  WHERE c.user_id = _user_id
+    AND (
+      p.is_active IS NOT TRUE
+      OR p.stock_count - COALESCE((
+        SELECT SUM(r.quantity)
+        FROM public.stock_reservations r
+        WHERE r.product_id = p.id
+          AND r.user_id <> _user_id
+          AND r.expires_at > NOW()
+      ), 0) < c.quantity
+    )
+  LIMIT 1;
+
+  IF _product_name IS NOT NULL THEN
+    RAISE EXCEPTION 'Not enough stock for %', _product_name;
+  END IF;
+
+  -- Prices always come from the products table, never from the client
+  INSERT INTO public.orders (user_id, total_amount, payment_status, delivery_status)
+  SELECT _user_id, SUM(p.price * c.quantity), 'completed', 'processing'
+  FROM public.cart_items c
+  JOIN public.products p ON p.id = c.product_id
+  WHERE c.user_id = _user_id
+  RETURNING * INTO _order;
+
+  INSERT INTO public.order_items (order_id, product_id, product_name, quantity, price)
+  SELECT _order.id, p.id, p.name, c.quantity, p.price
+  FROM public.cart_items c
+  JOIN public.products p ON p.id = c.product_id
+  WHERE c.user_id = _user_id;
+
+  UPDATE public.products p
+  SET stock_count = p.stock_count - c.quantity
+  FROM public.cart_items c
+  WHERE c.product_id = p.id
+    AND c.user_id = _user_id;
+
+  DELETE FROM public.stock_reservations WHERE user_id = _user_id;
+  DELETE FROM public.cart_items WHERE user_id = _user_id;
+
+  RETURN _order;
+END;
+$$;
+
+-- Return stock to the shelf when an order is cancelled
+CREATE OR REPLACE FUNCTION public.release_cancelled_order_stock()
+RETURNS TRIGGER
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.products p
+  SET stock_count = p.stock_count + oi.quantity
+  FROM public.order_items oi
+  WHERE oi.order_id = NEW.id
+    AND oi.product_id = p.id;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_order_cancelled
+  AFTER UPDATE OF delivery_status ON public.orders
+  FOR EACH ROW
+  WHEN (NEW.delivery_status = 'cancelled' AND OLD.delivery_status IS DISTINCT FROM 'cancelled')
+  EXECUTE FUNCTION public.release_cancelled_order_stock();
@@ -0,0 +1,60 @@
+-- Create categories table (nested through parent_id)
+CREATE TABLE public.categories (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  slug TEXT NOT NULL UNIQUE,
+  description TEXT,
+  parent_id UUID REFERENCES public.categories(id) ON DELETE SET NULL,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CHECK (parent_id IS DISTINCT FROM id)
+);
+
+CREATE INDEX categories_parent_id_idx ON public.categories (parent_id);
+
+ALTER TABLE public.categories ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view categories"
+  ON public.categories FOR SELECT
+  USING (true);
+
+CREATE POLICY "Admins can insert categories"
+  ON public.categories FOR INSERT
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can update categories"
+  ON public.categories FOR UPDATE
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can delete categories"
+  ON public.categories FOR DELETE
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_categories_updated_at
+  BEFORE UPDATE ON public.categories
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Create product_categories join table
+CREATE TABLE public.product_categories (
+  product_id UUID REFERENCES public.products(id) ON DELETE CASCADE NOT NULL,
+  category_id UUID REFERENCES public.categories(id) ON DELETE CASCADE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (product_id, category_id)
+);
+
+CREATE INDEX product_categories_category_id_idx ON public.product_categories (category_id);
+
+ALTER TABLE public.product_categories ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view product categories"
+  ON public.product_categories FOR SELECT
+  USING (true);
+
+CREATE POLICY "Admins can insert product categories"
+  ON public.product_categories FOR INSERT
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can delete product categories"
+  ON public.product_categories FOR DELETE
+  USING (public.has_role(auth.uid(), 'admin'));
@@ -0,0 +1,48 @@
+-- Trigram matching backs up full-text search for misspelled herb names
+CREATE EXTENSION IF NOT EXISTS pg_trgm WITH SCHEMA extensions;
+
+-- Weighted search document: name first, then description, then benefits and ingredients
+ALTER TABLE public.products
+  ADD COLUMN search_vector TSVECTOR GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', COALESCE(name, '')), 'A') ||
+    setweight(to_tsvector('english', COALESCE(description, '')), 'B') ||
+    setweight(to_tsvector('english', COALESCE(benefits, '')), 'C') ||
+    setweight(to_tsvector('english', COALESCE(ingredients, '')), 'C')
+  ) STORED;
+
+CREATE INDEX products_search_vector_idx
+  ON public.products USING GIN (search_vector);
+
+CREATE INDEX products_name_trgm_idx
+  ON public.products USING GIN (name extensions.gin_trgm_ops);
+
+CREATE INDEX products_ingredients_trgm_idx
+  ON public.products USING GIN (ingredients extensions.gin_trgm_ops);
+
+-- Ranked product search; runs as the caller so product RLS still applies
+CREATE OR REPLACE FUNCTION public.search_products(search_query TEXT)
+RETURNS SETOF public.products
+LANGUAGE SQL
+STABLE
+SET search_path = public, extensions
+SET pg_trgm.word_similarity_threshold = 0.4
+AS $$
+  SELECT p.*
+  FROM public.products p,
+    websearch_to_tsquery('english', search_query) AS q
+  WHERE p.is_active = true
+    AND (
+      p.search_vector @@ q
+      OR search_query <% p.name
+      OR search_query <% p.ingredients
+    )
+  ORDER BY
+    ts_rank_cd(p.search_vector, q) * 2
+      + GREATEST(
+        word_similarity(search_query, p.name),
+        word_similarity(search_query, COALESCE(p.ingredients, '')) / 2
+      ) DESC,
+    p.name
+$$;
+
+GRANT EXECUTE ON FUNCTION public.search_products(TEXT) TO anon, authenticated;
@@ -0,0 +1,56 @@
+-- Units sold per product, used to sort the catalog by popularity
+ALTER TABLE public.products
+  ADD COLUMN sold_count INTEGER NOT NULL DEFAULT 0;
+
+UPDATE public.products p
+SET sold_count = sold.quantity
+FROM (
+  SELECT oi.product_id, SUM(oi.quantity) AS quantity
+  FROM public.order_items oi
+  JOIN public.orders o ON o.id = oi.order_id
+  WHERE o.delivery_status <> 'cancelled'
+  GROUP BY oi.product_id
+) sold
+WHERE sold.product_id = p.id;
+
+CREATE INDEX products_sold_count_idx ON public.products (sold_count DESC);
+CREATE INDEX products_price_idx ON public.products (price);
+
+CREATE OR REPLACE FUNCTION public.increment_product_sold_count()
+RETURNS TRIGGER
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.products
+  SET sold_count = sold_count + NEW.quantity
+  WHERE id = NEW.product_id;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_order_item_created
+  AFTER INSERT ON public.order_items
+  FOR EACH ROW EXECUTE FUNCTION public.increment_product_sold_count();
+
+-- Cancelled orders give back both their stock and their sales
+CREATE OR REPLACE FUNCTION public.release_cancelled_order_stock()
+RETURNS TRIGGER
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.products p
+  SET
+    stock_count = p.stock_count + oi.quantity,
+    sold_count = GREATEST(p.sold_count - oi.quantity, 0)
+  FROM public.order_items oi
+  WHERE oi.order_id = NEW.id
+    AND oi.product_id = p.id;
+
+  RETURN NEW;
+END;
+$$;
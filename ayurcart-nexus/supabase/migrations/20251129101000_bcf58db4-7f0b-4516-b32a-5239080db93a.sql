@@ -0,0 +1,346 @@
+-- Create product_variants table (sizes / pack options with their own price and stock)
+CREATE TABLE public.product_variants (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id UUID REFERENCES public.products(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL,
+  sku TEXT NOT NULL UNIQUE,
+  price DECIMAL(10,2) NOT NULL CHECK (price >= 0),
+  stock_count INTEGER NOT NULL DEFAULT 0,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(product_id, name)
+);
+
+ALTER TABLE public.product_variants ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view active variants"
+  ON public.product_variants FOR SELECT
+  USING (is_active = true);
+
+CREATE POLICY "Admins can view all variants"
+  ON public.product_variants FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can insert variants"
+  ON public.product_variants FOR INSERT
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can update variants"
+  ON public.product_variants FOR UPDATE
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can delete variants"
+  ON public.product_variants FOR DELETE
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_product_variants_updated_at
+  BEFORE UPDATE ON public.product_variants
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- For products with variants, the product's price is the cheapest variant and its
+-- stock is the sum of the variants, so catalog sorting and filters keep working
+CREATE OR REPLACE FUNCTION public.sync_product_from_variants()
+RETURNS TRIGGER
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _product_id UUID := COALESCE(NEW.product_id, OLD.product_id);
+BEGIN
+  UPDATE public.products p
+  SET
+    price = COALESCE(v.min_price, p.price),
+    stock_count = COALESCE(v.total_stock, p.stock_count)
+  FROM (
+    SELECT MIN(price) AS min_price, SUM(stock_count)::INTEGER AS total_stock
+    FROM public.product_variants
+    WHERE product_id = _product_id AND is_active = true
+  ) v
+  WHERE p.id = _product_id;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER sync_product_from_variants
+  AFTER INSERT OR UPDATE OR DELETE ON public.product_variants
+  FOR EACH ROW EXECUTE FUNCTION public.sync_product_from_variants();
+
+-- Cart lines, reservations and order lines point at the chosen variant
+ALTER TABLE public.cart_items
+  ADD COLUMN variant_id UUID REFERENCES public.product_variants(id) ON DELETE CASCADE;
+
+ALTER TABLE public.cart_items
+  DROP CONSTRAINT cart_items_user_id_product_id_key,
+  ADD CONSTRAINT cart_items_user_id_product_id_variant_id_key
+    UNIQUE NULLS NOT DISTINCT (user_id, product_id, variant_id);
+
+ALTER TABLE public.stock_reservations
+  ADD COLUMN variant_id UUID REFERENCES public.product_variants(id) ON DELETE CASCADE;
+
+ALTER TABLE public.stock_reservations
+  DROP CONSTRAINT stock_reservations_user_id_product_id_key,
+  ADD CONSTRAINT stock_reservations_user_id_product_id_variant_id_key
+    UNIQUE NULLS NOT DISTINCT (user_id, product_id, variant_id);
+
+ALTER TABLE public.order_items
+  ADD COLUMN variant_id UUID REFERENCES public.product_variants(id) ON DELETE SET NULL,
+  ADD COLUMN variant_name TEXT;
+
+-- Stock left per variant for the caller once other shoppers' live reservations are held back
+CREATE VIEW public.variant_availability AS
+SELECT
+  v.id AS variant_id,
+  v.product_id,
+  GREATEST(
+    v.stock_count - COALESCE(
+      SUM(r.quantity) FILTER (WHERE r.user_id IS DISTINCT FROM auth.uid()),
+      0
+    ),
+    0
+  )::INTEGER AS available_stock
+FROM public.product_variants v
+JOIN public.products p ON p.id = v.product_id
+LEFT JOIN public.stock_reservations r
+  ON r.variant_id = v.id
+  AND r.expires_at > NOW()
+WHERE v.is_active = true
+  AND p.is_active = true
+GROUP BY v.id;
+
+GRANT SELECT ON public.variant_availability TO anon, authenticated;
+
+-- Finds the first cart line that cannot be fulfilled, ignoring the caller's own reservations
+CREATE OR REPLACE FUNCTION public.find_unavailable_cart_item(_user_id UUID)
+RETURNS TEXT
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT p.name || COALESCE(' (' || v.name || ')', '')
+  FROM public.cart_items c
+  JOIN public.products p ON p.id = c.product_id
+  LEFT JOIN public.product_variants v ON v.id = c.variant_id
+  WHERE c.user_id = _user_id
+    AND (
+      p.is_active IS NOT TRUE
+      OR (c.variant_id IS NOT NULL AND (v.is_active IS NOT TRUE OR v.product_id <> p.id))
+      OR COALESCE(v.stock_count, p.stock_count) - COALESCE((
+        SELECT SUM(r.quantity)
+        FROM public.stock_reservations r
+        WHERE r.product_id = p.id
+          AND r.variant_id IS NOT DISTINCT FROM c.variant_id
+          AND r.user_id <> _user_id
+          AND r.expires_at > NOW()
+      ), 0) < c.quantity
+    )
+  LIMIT 1
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.find_unavailable_cart_item(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Lock every product and variant in the caller's cart; returns false for an empty cart
+CREATE OR REPLACE FUNCTION public.lock_cart_stock(_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM 1
+  FROM public.products p
+  JOIN public.cart_items c ON c.product_id = p.id
+  WHERE c.user_id = _user_id
+  FOR UPDATE OF p;
+
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  PERFORM 1
+  FROM public.product_variants v
+  JOIN public.cart_items c ON c.variant_id = v.id
+  WHERE c.user_id = _user_id
+  FOR UPDATE OF v;
+
+  RETURN true;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.lock_cart_stock(UUID) FROM PUBLIC, anon, authenticated;
+
+-- A product sold in sizes must be bought in a specific size
+CREATE OR REPLACE FUNCTION public.find_cart_item_missing_variant(_user_id UUID)
+RETURNS TEXT
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT p.name
+  FROM public.cart_items c
+  JOIN public.products p ON p.id = c.product_id
+  WHERE c.user_id = _user_id
+    AND c.variant_id IS NULL
+    AND EXISTS (
+      SELECT 1 FROM public.product_variants v
+      WHERE v.product_id = p.id AND v.is_active = true
+    )
+  LIMIT 1
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.find_cart_item_missing_variant(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Reservations are now held per variant
+CREATE OR REPLACE FUNCTION public.reserve_cart_stock()
+RETURNS TIMESTAMP WITH TIME ZONE
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+  _expires_at TIMESTAMP WITH TIME ZONE;
+  _product_name TEXT;
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT NOW() + make_interval(mins => COALESCE((value #>> '{}')::INTEGER, 15))
+  INTO _expires_at
+  FROM public.store_settings
+  WHERE key = 'stock_reservation_minutes';
+
+  _expires_at := COALESCE(_expires_at, NOW() + INTERVAL '15 minutes');
+
+  IF NOT public.lock_cart_stock(_user_id) THEN
+    RAISE EXCEPTION 'Your cart is empty';
+  END IF;
+
+  _product_name := public.find_cart_item_missing_variant(_user_id);
+  IF _product_name IS NOT NULL THEN
+    RAISE EXCEPTION 'Please choose a size for %', _product_name;
+  END IF;
+
+  DELETE FROM public.stock_reservations
+  WHERE user_id = _user_id OR expires_at <= NOW();
+
+  _product_name := public.find_unavailable_cart_item(_user_id);
+  IF _product_name IS NOT NULL THEN
+    RAISE EXCEPTION 'Not enough stock for %', _product_name;
+  END IF;
+
+  INSERT INTO public.stock_reservations (user_id, product_id, variant_id, quantity, expires_at)
+  SELECT _user_id, c.product_id, c.variant_id, c.quantity, _expires_at
+  FROM public.cart_items c
+  WHERE c.user_id = _user_id;
+
+  RETURN _expires_at;
+END;
+$$;
+
+-- Orders are priced and decremented per variant
+CREATE OR REPLACE FUNCTION public.place_order()
+RETURNS public.orders
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+  _order public.orders;
+  _product_name TEXT;
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  -- Lock the products and variants in the cart so stock cannot change underneath us
+  IF NOT public.lock_cart_stock(_user_id) THEN
+    RAISE EXCEPTION 'Your cart is empty';
+  END IF;
+
+  _product_name := public.find_cart_item_missing_variant(_user_id);
+  IF _product_name IS NOT NULL THEN
+    RAISE EXCEPTION 'Please choose a size for %', _product_name;
+  END IF;
+
+  _product_name := public.find_unavailable_cart_item(_user_id);
+  IF _product_name IS NOT NULL THEN
+    RAISE EXCEPTION 'Not enough stock for %', _product_name;
+  END IF;
+
+  -- Prices always come from the products and variants tables, never from the client
+  INSERT INTO public.orders (user_id, total_amount, payment_status, delivery_status)
+  SELECT _user_id, SUM(COALESCE(v.price, p.price) * c.quantity), 'completed', 'processing'
+  FROM public.cart_items c
+  JOIN public.products p ON p.id = c.product_id
+  LEFT JOIN public.product_variants v ON v.id = c.variant_id
+  WHERE c.user_id = _user_id
+  RETURNING * INTO _order;
+
+  INSERT INTO public.order_items (order_id, product_id, variant_id, product_name, variant_name, quantity, price)
+  SELECT _order.id, p.id, v.id, p.name, v.name, c.quantity, COALESCE(v.price, p.price)
+  FROM public.cart_items c
+  JOIN public.products p ON p.id = c.product_id
+  LEFT JOIN public.product_variants v ON v.id = c.variant_id
+  WHERE c.user_id = _user_id;
+
+  -- Variant stock rolls up into the product through sync_product_from_variants
+  UPDATE public.product_variants v
+  SET stock_count = v.stock_count - c.quantity
+  FROM public.cart_items c
+  WHERE c.variant_id = v.id
+    AND c.user_id = _user_id;
+
+  UPDATE public.products p
+  SET stock_count = p.stock_count - c.quantity
+  FROM public.cart_items c
+  WHERE c.product_id = p.id
+    AND c.variant_id IS NULL
+    AND c.user_id = _user_id;
+
+  DELETE FROM public.stock_reservations WHERE user_id = _user_id;
+  DELETE FROM public.cart_items WHERE user_id = _user_id;
+
+  RETURN _order;
+END;
+$$;
+
+-- Cancelled orders return stock to the variant they were bought in
+CREATE OR REPLACE FUNCTION public.release_cancelled_order_stock()
+RETURNS TRIGGER
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.product_variants v
+  SET stock_count = v.stock_count + oi.quantity
+  FROM public.order_items oi
+  WHERE oi.order_id = NEW.id
+    AND oi.variant_id = v.id;
+
+  UPDATE public.products p
+  SET
+    stock_count = p.stock_count + COALESCE(oi.unvaried_quantity, 0),
+    sold_count = GREATEST(p.sold_count - oi.quantity, 0)
+  FROM (
+    SELECT
+      product_id,
+      SUM(quantity) AS quantity,
+      (SUM(quantity) FILTER (WHERE variant_id IS NULL))::INTEGER AS unvaried_quantity
+    FROM public.order_items
+    WHERE order_id = NEW.id
+    GROUP BY product_id
+  ) oi
+  WHERE oi.product_id = p.id;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,65 @@
+-- Create product_images table (ordered gallery; the first image is the product's cover)
+CREATE TABLE public.product_images (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id UUID REFERENCES public.products(id) ON DELETE CASCADE NOT NULL,
+  url TEXT NOT NULL,
+  storage_path TEXT,
+  alt_text TEXT,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX product_images_product_id_idx
+  ON public.product_images (product_id, sort_order);
+
+ALTER TABLE public.product_images ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view product images"
+  ON public.product_images FOR SELECT
+  USING (true);
+
+CREATE POLICY "Admins can insert product images"
+  ON public.product_images FOR INSERT
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can update product images"
+  ON public.product_images FOR UPDATE
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can delete product images"
+  ON public.product_images FOR DELETE
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- Existing single images become the first gallery image
+INSERT INTO public.product_images (product_id, url, alt_text, sort_order)
+SELECT id, image_url, name, 0
+FROM public.products
+WHERE image_url IS NOT NULL AND image_url <> '';
+
+-- Keep products.image_url pointing at the cover so cards, cart and search keep working
+CREATE OR REPLACE FUNCTION public.sync_product_cover_image()
+RETURNS TRIGGER
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _product_id UUID := COALESCE(NEW.product_id, OLD.product_id);
+BEGIN
+  UPDATE public.products
+  SET image_url = (
+    SELECT url
+    FROM public.product_images
+    WHERE product_id = _product_id
+    ORDER BY sort_order, created_at
+    LIMIT 1
+  )
+  WHERE id = _product_id;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER sync_product_cover_image
+  AFTER INSERT OR UPDATE OR DELETE ON public.product_images
+  FOR EACH ROW EXECUTE FUNCTION public.sync_product_cover_image();
@@ -0,0 +1,148 @@
+-- Check whether a user has received a product (used to gate reviews)
+CREATE OR REPLACE FUNCTION public.has_purchased_product(_user_id UUID, _product_id UUID)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.order_items oi
+    JOIN public.orders o ON o.id = oi.order_id
+    WHERE o.user_id = _user_id
+      AND oi.product_id = _product_id
+      AND o.delivery_status = 'delivered'
+  )
+$$;
+
+-- Create product_reviews table
+CREATE TABLE public.product_reviews (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id UUID REFERENCES public.products(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  reviewer_name TEXT NOT NULL DEFAULT '',
+  rating SMALLINT NOT NULL CHECK (rating BETWEEN 1 AND 5),
+  title TEXT,
+  body TEXT,
+  photo_urls TEXT[] NOT NULL DEFAULT '{}',
+  verified_purchase BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(product_id, user_id)
+);
+
+CREATE INDEX product_reviews_product_id_idx
+  ON public.product_reviews (product_id, created_at DESC);
+
+ALTER TABLE public.product_reviews ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view reviews"
+  ON public.product_reviews FOR SELECT
+  USING (true);
+
+CREATE POLICY "Customers can review delivered products"
+  ON public.product_reviews FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND public.has_purchased_product(auth.uid(), product_id)
+  );
+
+CREATE POLICY "Users can update own reviews"
+  ON public.product_reviews FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own reviews"
+  ON public.product_reviews FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can delete reviews"
+  ON public.product_reviews FOR DELETE
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_product_reviews_updated_at
+  BEFORE UPDATE ON public.product_reviews
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Profiles are private, so copy the reviewer's name onto the review; the
+-- verified flag is always decided here rather than trusted from the client
+CREATE OR REPLACE FUNCTION public.prepare_product_review()
+RETURNS TRIGGER
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.product_id := CASE WHEN TG_OP = 'UPDATE' THEN OLD.product_id ELSE NEW.product_id END;
+  NEW.user_id := CASE WHEN TG_OP = 'UPDATE' THEN OLD.user_id ELSE NEW.user_id END;
+  NEW.verified_purchase := public.has_purchased_product(NEW.user_id, NEW.product_id);
+  NEW.reviewer_name := COALESCE(
+    NULLIF((SELECT name FROM public.profiles WHERE id = NEW.user_id), ''),
+    'Customer'
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER prepare_product_review
+  BEFORE INSERT OR UPDATE ON public.product_reviews
+  FOR EACH ROW EXECUTE FUNCTION public.prepare_product_review();
+
+-- Aggregate rating per product, shown on catalog cards
+ALTER TABLE public.products
+  ADD COLUMN review_count INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN average_rating NUMERIC(3,2);
+
+CREATE OR REPLACE FUNCTION public.refresh_product_rating()
+RETURNS TRIGGER
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _product_id UUID := COALESCE(NEW.product_id, OLD.product_id);
+BEGIN
+  UPDATE public.products p
+  SET
+    review_count = r.review_count,
+    average_rating = r.average_rating
+  FROM (
+    SELECT COUNT(*)::INTEGER AS review_count, ROUND(AVG(rating), 2) AS average_rating
+    FROM public.product_reviews
+    WHERE product_id = _product_id
+  ) r
+  WHERE p.id = _product_id;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER refresh_product_rating
+  AFTER INSERT OR UPDATE OR DELETE ON public.product_reviews
+  FOR EACH ROW EXECUTE FUNCTION public.refresh_product_rating();
+
+-- Create review-photos storage bucket; reviewers upload into their own folder
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('review-photos', 'review-photos', true)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Anyone can view review photos"
+  ON storage.objects FOR SELECT
+  USING (bucket_id = 'review-photos');
+
+CREATE POLICY "Users can upload own review photos"
+  ON storage.objects FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    bucket_id = 'review-photos'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+CREATE POLICY "Users can delete own review photos"
+  ON storage.objects FOR DELETE
+  TO authenticated
+  USING (
+    bucket_id = 'review-photos'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
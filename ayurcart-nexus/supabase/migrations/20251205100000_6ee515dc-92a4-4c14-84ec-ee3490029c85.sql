@@ -0,0 +1,120 @@
+-- Reviews go through moderation before they are shown publicly
+ALTER TABLE public.product_reviews
+  ADD COLUMN status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'approved', 'rejected')),
+  ADD COLUMN flagged_words TEXT[] NOT NULL DEFAULT '{}',
+  ADD COLUMN admin_reply TEXT,
+  ADD COLUMN replied_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN moderated_at TIMESTAMP WITH TIME ZONE;
+
+-- Reviews written before moderation existed stay public
+UPDATE public.product_reviews
+SET status = 'approved', moderated_at = NOW();
+
+CREATE INDEX product_reviews_status_idx
+  ON public.product_reviews (status, created_at DESC);
+
+-- Words that flag a review for a closer look, e.g. medical claims
+INSERT INTO public.store_settings (key, value)
+VALUES (
+  'review_banned_words',
+  '["cure", "cured", "cures", "miracle", "guaranteed", "cancer", "diabetes", "covid"]'::jsonb
+)
+ON CONFLICT (key) DO NOTHING;
+
+DROP POLICY "Anyone can view reviews" ON public.product_reviews;
+
+CREATE POLICY "Anyone can view approved reviews"
+  ON public.product_reviews FOR SELECT
+  USING (status = 'approved');
+
+CREATE POLICY "Users can view own reviews"
+  ON public.product_reviews FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all reviews"
+  ON public.product_reviews FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can update reviews"
+  ON public.product_reviews FOR UPDATE
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- Banned words that appear as whole words in the review's title or body
+CREATE OR REPLACE FUNCTION public.find_banned_words(_text TEXT)
+RETURNS TEXT[]
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(array_agg(DISTINCT word ORDER BY word), '{}')
+  FROM public.store_settings s,
+    jsonb_array_elements_text(s.value) AS word
+  WHERE s.key = 'review_banned_words'
+    AND _text ~* ('\m' || regexp_replace(word, '([.*+?^${}()|\[\]\\])', '\\\1', 'g') || '\M')
+$$;
+
+-- Customers can write and edit content but never moderate; any customer write
+-- sends the review back to the queue with fresh flags
+CREATE OR REPLACE FUNCTION public.prepare_product_review()
+RETURNS TRIGGER
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.product_id := CASE WHEN TG_OP = 'UPDATE' THEN OLD.product_id ELSE NEW.product_id END;
+  NEW.user_id := CASE WHEN TG_OP = 'UPDATE' THEN OLD.user_id ELSE NEW.user_id END;
+  NEW.verified_purchase := public.has_purchased_product(NEW.user_id, NEW.product_id);
+  NEW.reviewer_name := COALESCE(
+    NULLIF((SELECT name FROM public.profiles WHERE id = NEW.user_id), ''),
+    'Customer'
+  );
+
+  IF public.has_role(auth.uid(), 'admin') AND TG_OP = 'UPDATE' THEN
+    IF NEW.status IS DISTINCT FROM OLD.status THEN
+      NEW.moderated_at := NOW();
+    END IF;
+    IF NEW.admin_reply IS DISTINCT FROM OLD.admin_reply THEN
+      NEW.replied_at := CASE WHEN NEW.admin_reply IS NULL THEN NULL ELSE NOW() END;
+    END IF;
+  ELSE
+    NEW.status := 'pending';
+    NEW.moderated_at := NULL;
+    NEW.admin_reply := CASE WHEN TG_OP = 'UPDATE' THEN OLD.admin_reply END;
+    NEW.replied_at := CASE WHEN TG_OP = 'UPDATE' THEN OLD.replied_at END;
+    NEW.flagged_words := public.find_banned_words(
+      COALESCE(NEW.title, '') || ' ' || COALESCE(NEW.body, '')
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Only approved reviews count towards the product's rating
+CREATE OR REPLACE FUNCTION public.refresh_product_rating()
+RETURNS TRIGGER
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _product_id UUID := COALESCE(NEW.product_id, OLD.product_id);
+BEGIN
+  UPDATE public.products p
+  SET
+    review_count = r.review_count,
+    average_rating = r.average_rating
+  FROM (
+    SELECT COUNT(*)::INTEGER AS review_count, ROUND(AVG(rating), 2) AS average_rating
+    FROM public.product_reviews
+    WHERE product_id = _product_id
+      AND status = 'approved'
+  ) r
+  WHERE p.id = _product_id;
+
+  RETURN NULL;
+END;
+$$;
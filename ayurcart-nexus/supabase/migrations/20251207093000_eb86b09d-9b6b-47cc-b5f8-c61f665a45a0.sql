@@ -0,0 +1,14 @@
+-- Create dosha enum
+CREATE TYPE public.dosha AS ENUM ('vata', 'pitta', 'kapha');
+
+-- Result of the customer's dosha assessment
+ALTER TABLE public.profiles
+  ADD COLUMN dosha public.dosha,
+  ADD COLUMN dosha_scores JSONB,
+  ADD COLUMN dosha_assessed_at TIMESTAMP WITH TIME ZONE;
+
+-- Doshas each product is suited to
+ALTER TABLE public.products
+  ADD COLUMN doshas public.dosha[] NOT NULL DEFAULT '{}';
+
+CREATE INDEX products_doshas_idx ON public.products USING GIN (doshas);
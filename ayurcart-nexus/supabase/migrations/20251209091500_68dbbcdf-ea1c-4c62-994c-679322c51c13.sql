@@ -0,0 +1,61 @@
+-- How often two products end up in the same order. The score divides the shared
+-- orders by the geometric mean of each product's orders, so bestsellers do not
+-- dominate every recommendation
+CREATE MATERIALIZED VIEW public.product_co_purchases AS
+WITH product_orders AS (
+  SELECT DISTINCT oi.order_id, oi.product_id
+  FROM public.order_items oi
+  JOIN public.orders o ON o.id = oi.order_id
+  WHERE o.delivery_status <> 'cancelled'
+),
+order_counts AS (
+  SELECT product_id, COUNT(*) AS order_count
+  FROM product_orders
+  GROUP BY product_id
+)
+SELECT
+  a.product_id,
+  b.product_id AS related_product_id,
+  COUNT(*)::INTEGER AS order_count,
+  (COUNT(*) / SQRT(ca.order_count * cb.order_count))::NUMERIC(6,4) AS score
+FROM product_orders a
+JOIN product_orders b ON b.order_id = a.order_id AND b.product_id <> a.product_id
+JOIN order_counts ca ON ca.product_id = a.product_id
+JOIN order_counts cb ON cb.product_id = b.product_id
+GROUP BY a.product_id, b.product_id, ca.order_count, cb.order_count;
+
+-- Needed for REFRESH ... CONCURRENTLY
+CREATE UNIQUE INDEX product_co_purchases_pair_idx
+  ON public.product_co_purchases (product_id, related_product_id);
+
+GRANT SELECT ON public.product_co_purchases TO anon, authenticated;
+
+-- Products most often bought with the given ones, excluding the given ones
+CREATE OR REPLACE FUNCTION public.frequently_bought_together(_product_ids UUID[], _limit INTEGER DEFAULT 4)
+RETURNS SETOF public.products
+LANGUAGE SQL
+STABLE
+SET search_path = public
+AS $$
+  SELECT p.*
+  FROM public.product_co_purchases cp
+  JOIN public.products p ON p.id = cp.related_product_id
+  WHERE cp.product_id = ANY(_product_ids)
+    AND NOT p.id = ANY(_product_ids)
+    AND p.is_active = true
+    AND p.stock_count > 0
+  GROUP BY p.id
+  ORDER BY SUM(cp.score) DESC, MAX(cp.order_count) DESC
+  LIMIT _limit
+$$;
+
+GRANT EXECUTE ON FUNCTION public.frequently_bought_together(UUID[], INTEGER) TO anon, authenticated;
+
+-- Rebuild the scores nightly from the day's orders
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule(
+  'refresh-product-co-purchases',
+  '0 3 * * *',
+  $$REFRESH MATERIALIZED VIEW CONCURRENTLY public.product_co_purchases$$
+);
@@ -0,0 +1,78 @@
+-- Create wishlist_items table
+CREATE TABLE public.wishlist_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  product_id UUID REFERENCES public.products(id) ON DELETE CASCADE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(user_id, product_id)
+);
+
+ALTER TABLE public.wishlist_items ENABLE ROW LEVEL SECURITY;
+
+-- Wishlist items RLS policies
+CREATE POLICY "Users can view own wishlist"
+  ON public.wishlist_items FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert to own wishlist"
+  ON public.wishlist_items FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete from own wishlist"
+  ON public.wishlist_items FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Create wishlist_shares table (one read-only share token per customer)
+CREATE TABLE public.wishlist_shares (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  token TEXT NOT NULL UNIQUE DEFAULT replace(gen_random_uuid()::TEXT, '-', ''),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE public.wishlist_shares ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own wishlist share"
+  ON public.wishlist_shares FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create own wishlist share"
+  ON public.wishlist_shares FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+-- Deleting the share revokes the link; sharing again issues a new token
+CREATE POLICY "Users can delete own wishlist share"
+  ON public.wishlist_shares FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Anyone holding a share token can read that wishlist, and nothing else
+CREATE OR REPLACE FUNCTION public.shared_wishlist_products(_token TEXT)
+RETURNS SETOF public.products
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT p.*
+  FROM public.wishlist_shares s
+  JOIN public.wishlist_items w ON w.user_id = s.user_id
+  JOIN public.products p ON p.id = w.product_id
+  WHERE s.token = _token
+    AND p.is_active = true
+  ORDER BY w.created_at DESC
+$$;
+
+CREATE OR REPLACE FUNCTION public.shared_wishlist_owner(_token TEXT)
+RETURNS TEXT
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT NULLIF(split_part(pr.name, ' ', 1), '')
+  FROM public.wishlist_shares s
+  JOIN public.profiles pr ON pr.id = s.user_id
+  WHERE s.token = _token
+$$;
+
+GRANT EXECUTE ON FUNCTION public.shared_wishlist_products(TEXT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.shared_wishlist_owner(TEXT) TO anon, authenticated;
@@ -0,0 +1,127 @@
+-- Create stock_subscriptions table ("Notify me" requests for out-of-stock products or sizes)
+CREATE TABLE public.stock_subscriptions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  product_id UUID REFERENCES public.products(id) ON DELETE CASCADE NOT NULL,
+  variant_id UUID REFERENCES public.product_variants(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  notified_at TIMESTAMP WITH TIME ZONE,
+  UNIQUE NULLS NOT DISTINCT (user_id, product_id, variant_id)
+);
+
+CREATE INDEX stock_subscriptions_pending_idx
+  ON public.stock_subscriptions(product_id, variant_id)
+  WHERE notified_at IS NULL;
+
+ALTER TABLE public.stock_subscriptions ENABLE ROW LEVEL SECURITY;
+
+-- Stock subscriptions RLS policies
+CREATE POLICY "Users can view own stock subscriptions"
+  ON public.stock_subscriptions FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own stock subscriptions"
+  ON public.stock_subscriptions FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+-- Subscribing again after a notification re-arms the existing row
+CREATE POLICY "Users can update own stock subscriptions"
+  ON public.stock_subscriptions FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own stock subscriptions"
+  ON public.stock_subscriptions FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all stock subscriptions"
+  ON public.stock_subscriptions FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- Create notifications table (queue of messages for customers)
+CREATE TABLE public.notifications (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  type TEXT NOT NULL,
+  title TEXT NOT NULL,
+  body TEXT,
+  link TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  read_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX notifications_user_id_idx ON public.notifications(user_id, created_at DESC);
+
+ALTER TABLE public.notifications ENABLE ROW LEVEL SECURITY;
+
+-- Notifications RLS policies (rows are only ever created by triggers)
+CREATE POLICY "Users can view own notifications"
+  ON public.notifications FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own notifications"
+  ON public.notifications FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own notifications"
+  ON public.notifications FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Queue a notification for every pending subscriber when stock goes from zero to positive.
+-- Product-level subscribers hear about any restock; size subscribers only about their size.
+CREATE OR REPLACE FUNCTION public.queue_back_in_stock_notifications()
+RETURNS TRIGGER
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _product_id UUID;
+  _variant_id UUID;
+  _name TEXT;
+BEGIN
+  IF OLD.stock_count > 0 OR NEW.stock_count <= 0 OR NOT NEW.is_active THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_TABLE_NAME = 'product_variants' THEN
+    _product_id := NEW.product_id;
+    _variant_id := NEW.id;
+    SELECT p.name || ' (' || NEW.name || ')' INTO _name
+    FROM public.products p
+    WHERE p.id = NEW.product_id;
+  ELSE
+    _product_id := NEW.id;
+    _variant_id := NULL;
+    _name := NEW.name;
+  END IF;
+
+  WITH due AS (
+    UPDATE public.stock_subscriptions
+    SET notified_at = NOW()
+    WHERE product_id = _product_id
+      AND variant_id IS NOT DISTINCT FROM _variant_id
+      AND notified_at IS NULL
+    RETURNING user_id
+  )
+  INSERT INTO public.notifications (user_id, type, title, body, link)
+  SELECT
+    user_id,
+    'back_in_stock',
+    _name || ' is back in stock',
+    'The item you asked us to watch is available again. Stock is limited, so order soon.',
+    '/products/' || _product_id
+  FROM due;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER queue_product_back_in_stock_notifications
+  AFTER UPDATE OF stock_count ON public.products
+  FOR EACH ROW
+  EXECUTE FUNCTION public.queue_back_in_stock_notifications();
+
+CREATE TRIGGER queue_variant_back_in_stock_notifications
+  AFTER UPDATE OF stock_count ON public.product_variants
+  FOR EACH ROW
+  EXECUTE FUNCTION public.queue_back_in_stock_notifications();
@@ -0,0 +1,153 @@
+-- Create allergen enum
+CREATE TYPE public.allergen AS ENUM (
+  'tree_nuts',
+  'peanuts',
+  'sesame',
+  'milk',
+  'gluten',
+  'soy',
+  'mustard',
+  'bee_products'
+);
+
+-- Create ingredients table (master list linked to products)
+CREATE TABLE public.ingredients (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL UNIQUE,
+  slug TEXT NOT NULL UNIQUE,
+  latin_name TEXT,
+  sanskrit_name TEXT,
+  description TEXT,
+  allergens public.allergen[] NOT NULL DEFAULT '{}',
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE public.ingredients ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view ingredients"
+  ON public.ingredients FOR SELECT
+  USING (true);
+
+CREATE POLICY "Admins can insert ingredients"
+  ON public.ingredients FOR INSERT
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can update ingredients"
+  ON public.ingredients FOR UPDATE
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can delete ingredients"
+  ON public.ingredients FOR DELETE
+  USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_ingredients_updated_at
+  BEFORE UPDATE ON public.ingredients
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Create product_ingredients join table
+CREATE TABLE public.product_ingredients (
+  product_id UUID REFERENCES public.products(id) ON DELETE CASCADE NOT NULL,
+  ingredient_id UUID REFERENCES public.ingredients(id) ON DELETE CASCADE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (product_id, ingredient_id)
+);
+
+CREATE INDEX product_ingredients_ingredient_id_idx ON public.product_ingredients (ingredient_id);
+
+ALTER TABLE public.product_ingredients ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view product ingredients"
+  ON public.product_ingredients FOR SELECT
+  USING (true);
+
+CREATE POLICY "Admins can insert product ingredients"
+  ON public.product_ingredients FOR INSERT
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can delete product ingredients"
+  ON public.product_ingredients FOR DELETE
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- Allergens contained in each product, so the catalog can exclude them in one query
+ALTER TABLE public.products
+  ADD COLUMN allergens public.allergen[] NOT NULL DEFAULT '{}';
+
+CREATE INDEX products_allergens_idx ON public.products USING GIN (allergens);
+
+CREATE OR REPLACE FUNCTION public.refresh_product_allergens(_product_id UUID)
+RETURNS VOID
+LANGUAGE SQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE public.products
+  SET allergens = COALESCE((
+    SELECT array_agg(DISTINCT a ORDER BY a)
+    FROM public.product_ingredients pi
+    JOIN public.ingredients i ON i.id = pi.ingredient_id
+    CROSS JOIN LATERAL unnest(i.allergens) AS a
+    WHERE pi.product_id = _product_id
+  ), '{}')
+  WHERE id = _product_id;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.refresh_product_allergens(UUID) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.sync_product_allergens()
+RETURNS TRIGGER
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.refresh_product_allergens(COALESCE(NEW.product_id, OLD.product_id));
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER sync_product_allergens
+  AFTER INSERT OR DELETE ON public.product_ingredients
+  FOR EACH ROW EXECUTE FUNCTION public.sync_product_allergens();
+
+-- Changing an ingredient's allergens updates every product that uses it
+CREATE OR REPLACE FUNCTION public.sync_ingredient_allergens()
+RETURNS TRIGGER
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.refresh_product_allergens(pi.product_id)
+  FROM public.product_ingredients pi
+  WHERE pi.ingredient_id = NEW.id;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER sync_ingredient_allergens
+  AFTER UPDATE OF allergens ON public.ingredients
+  FOR EACH ROW
+  WHEN (OLD.allergens IS DISTINCT FROM NEW.allergens)
+  EXECUTE FUNCTION public.sync_ingredient_allergens();
+
+-- Seed common ingredients and link products whose free-text ingredient list mentions them
+INSERT INTO public.ingredients (name, slug, latin_name, sanskrit_name, allergens) VALUES
+  ('Ashwagandha', 'ashwagandha', 'Withania somnifera', 'Ashvagandha', '{}'),
+  ('Turmeric', 'turmeric', 'Curcuma longa', 'Haridra', '{}'),
+  ('Neem', 'neem', 'Azadirachta indica', 'Nimba', '{}'),
+  ('Brahmi', 'brahmi', 'Bacopa monnieri', 'Brahmi', '{}'),
+  ('Amla', 'amla', 'Phyllanthus emblica', 'Amalaki', '{}'),
+  ('Sesame Oil', 'sesame-oil', 'Sesamum indicum', 'Tila Taila', '{sesame}'),
+  ('Almond Oil', 'almond-oil', 'Prunus dulcis', 'Vatada Taila', '{tree_nuts}'),
+  ('Coconut Oil', 'coconut-oil', 'Cocos nucifera', 'Narikela Taila', '{}'),
+  ('Ghee', 'ghee', NULL, 'Ghrita', '{milk}'),
+  ('Honey', 'honey', NULL, 'Madhu', '{bee_products}')
+ON CONFLICT (name) DO NOTHING;
+
+INSERT INTO public.product_ingredients (product_id, ingredient_id)
+SELECT p.id, i.id
+FROM public.products p
+JOIN public.ingredients i ON p.ingredients ILIKE '%' || i.name || '%'
+ON CONFLICT DO NOTHING;
@@ -0,0 +1,69 @@
+-- URL slugs for products and blog posts
+CREATE OR REPLACE FUNCTION public.slugify(_text TEXT)
+RETURNS TEXT
+LANGUAGE SQL
+IMMUTABLE
+AS $$
+  SELECT trim(BOTH '-' FROM regexp_replace(lower(_text), '[^a-z0-9]+', '-', 'g'))
+$$;
+
+-- Fills in a blank slug from the column named in the trigger argument, adding -2, -3... until it is unique
+CREATE OR REPLACE FUNCTION public.set_unique_slug()
+RETURNS TRIGGER
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _base TEXT;
+  _slug TEXT;
+  _suffix INTEGER := 1;
+  _taken BOOLEAN;
+BEGIN
+  IF NEW.slug IS NOT NULL AND NEW.slug <> '' THEN
+    RETURN NEW;
+  END IF;
+
+  _base := COALESCE(NULLIF(public.slugify(to_jsonb(NEW) ->> TG_ARGV[0]), ''), 'item');
+  _slug := _base;
+
+  LOOP
+    EXECUTE format('SELECT EXISTS (SELECT 1 FROM %I.%I WHERE slug = $1 AND id <> $2)', TG_TABLE_SCHEMA, TG_TABLE_NAME)
+      INTO _taken
+      USING _slug, NEW.id;
+    EXIT WHEN NOT _taken;
+
+    _suffix := _suffix + 1;
+    _slug := _base || '-' || _suffix;
+  END LOOP;
+
+  NEW.slug := _slug;
+  RETURN NEW;
+END;
+$$;
+
+-- Products: slugs stay fixed when a product is renamed so shared links keep working
+ALTER TABLE public.products ADD COLUMN slug TEXT;
+
+CREATE TRIGGER set_product_slug
+  BEFORE INSERT OR UPDATE OF slug ON public.products
+  FOR EACH ROW EXECUTE FUNCTION public.set_unique_slug('name');
+
+UPDATE public.products SET slug = NULL;
+
+ALTER TABLE public.products
+  ALTER COLUMN slug SET NOT NULL,
+  ADD CONSTRAINT products_slug_key UNIQUE (slug);
+
+-- Blog posts
+ALTER TABLE public.blogs ADD COLUMN slug TEXT;
+
+CREATE TRIGGER set_blog_slug
+  BEFORE INSERT OR UPDATE OF slug ON public.blogs
+  FOR EACH ROW EXECUTE FUNCTION public.set_unique_slug('title');
+
+UPDATE public.blogs SET slug = NULL;
+
+ALTER TABLE public.blogs
+  ALTER COLUMN slug SET NOT NULL,
+  ADD CONSTRAINT blogs_slug_key UNIQUE (slug);
@@ -0,0 +1,51 @@
+-- Archive products instead of deleting them, so past orders keep their product
+ALTER TABLE public.products
+  ADD COLUMN archived_at TIMESTAMP WITH TIME ZONE,
+  ADD CONSTRAINT products_archived_inactive CHECK (archived_at IS NULL OR is_active = false);
+
+CREATE INDEX products_archived_at_idx ON public.products (archived_at);
+
+-- Deleting a product used to cascade into order history; refuse it instead
+ALTER TABLE public.order_items
+  DROP CONSTRAINT order_items_product_id_fkey,
+  ADD CONSTRAINT order_items_product_id_fkey
+    FOREIGN KEY (product_id) REFERENCES public.products(id) ON DELETE RESTRICT;
+
+DROP POLICY "Admins can delete products" ON public.products;
+
+-- Admins manage inactive and archived products too
+CREATE POLICY "Admins can view all products"
+  ON public.products FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- Order history still shows products that were archived after purchase
+CREATE POLICY "Customers can view ordered products"
+  ON public.products FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.order_items
+      JOIN public.orders ON orders.id = order_items.order_id
+      WHERE order_items.product_id = products.id
+      AND orders.user_id = auth.uid()
+    )
+  );
+
+-- Archived products can no longer be bought, so take them out of every cart
+CREATE OR REPLACE FUNCTION public.clear_archived_product_from_carts()
+RETURNS TRIGGER
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM public.cart_items WHERE product_id = NEW.id;
+  DELETE FROM public.stock_reservations WHERE product_id = NEW.id;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER clear_archived_product_from_carts
+  AFTER UPDATE OF archived_at ON public.products
+  FOR EACH ROW
+  WHEN (OLD.archived_at IS NULL AND NEW.archived_at IS NOT NULL)
+  EXECUTE FUNCTION public.clear_archived_product_from_carts();
@@ -0,0 +1,107 @@
+-- Apply a spreadsheet import in a single transaction: either every product is written or none is
+CREATE OR REPLACE FUNCTION public.import_products(_products JSONB)
+RETURNS INTEGER
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _item JSONB;
+  _variant JSONB;
+  _product_id UUID;
+  _count INTEGER := 0;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can import products';
+  END IF;
+
+  FOR _item IN SELECT * FROM jsonb_array_elements(_products) LOOP
+    _product_id := (_item->>'id')::UUID;
+
+    IF _product_id IS NULL THEN
+      INSERT INTO public.products (
+        slug, name, description, benefits, ingredients, usage_instructions,
+        price, stock_count, is_active, archived_at, doshas
+      )
+      VALUES (
+        _item->>'slug',
+        _item->>'name',
+        _item->>'description',
+        _item->>'benefits',
+        _item->>'ingredients',
+        _item->>'usage_instructions',
+        (_item->>'price')::NUMERIC,
+        (_item->>'stock_count')::INTEGER,
+        (_item->>'is_active')::BOOLEAN,
+        CASE WHEN (_item->>'archived')::BOOLEAN THEN NOW() END,
+        ARRAY(SELECT jsonb_array_elements_text(_item->'doshas'))::public.dosha[]
+      )
+      RETURNING id INTO _product_id;
+    ELSE
+      UPDATE public.products SET
+        name = _item->>'name',
+        description = _item->>'description',
+        benefits = _item->>'benefits',
+        ingredients = _item->>'ingredients',
+        usage_instructions = _item->>'usage_instructions',
+        price = (_item->>'price')::NUMERIC,
+        stock_count = (_item->>'stock_count')::INTEGER,
+        is_active = (_item->>'is_active')::BOOLEAN,
+        archived_at = CASE WHEN (_item->>'archived')::BOOLEAN THEN COALESCE(archived_at, NOW()) END,
+        doshas = ARRAY(SELECT jsonb_array_elements_text(_item->'doshas'))::public.dosha[]
+      WHERE id = _product_id;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Product % no longer exists', _item->>'slug';
+      END IF;
+    END IF;
+
+    IF jsonb_typeof(_item->'category_ids') = 'array' THEN
+      DELETE FROM public.product_categories WHERE product_id = _product_id;
+      INSERT INTO public.product_categories (product_id, category_id)
+      SELECT _product_id, category_id::UUID
+      FROM jsonb_array_elements_text(_item->'category_ids') AS category_id;
+    END IF;
+
+    IF jsonb_typeof(_item->'images') = 'array' THEN
+      DELETE FROM public.product_images WHERE product_id = _product_id;
+      INSERT INTO public.product_images (product_id, url, storage_path, sort_order)
+      SELECT _product_id, image->>'url', image->>'storage_path', (position - 1)::INTEGER
+      FROM jsonb_array_elements(_item->'images') WITH ORDINALITY AS images(image, position);
+
+      UPDATE public.products SET image_url = _item->'images'->0->>'url' WHERE id = _product_id;
+    END IF;
+
+    -- Sizes are matched on SKU; sizes that are not in the file stay as they are
+    IF jsonb_typeof(_item->'variants') = 'array' THEN
+      FOR _variant IN SELECT * FROM jsonb_array_elements(_item->'variants') LOOP
+        UPDATE public.product_variants SET
+          name = _variant->>'name',
+          price = (_variant->>'price')::NUMERIC,
+          stock_count = (_variant->>'stock_count')::INTEGER,
+          is_active = (_variant->>'is_active')::BOOLEAN
+        WHERE sku = _variant->>'sku' AND product_id = _product_id;
+
+        IF NOT FOUND THEN
+          INSERT INTO public.product_variants (product_id, sku, name, price, stock_count, is_active, sort_order)
+          VALUES (
+            _product_id,
+            _variant->>'sku',
+            _variant->>'name',
+            (_variant->>'price')::NUMERIC,
+            (_variant->>'stock_count')::INTEGER,
+            (_variant->>'is_active')::BOOLEAN,
+            (SELECT COALESCE(MAX(sort_order) + 1, 0) FROM public.product_variants WHERE product_id = _product_id)
+          );
+        END IF;
+      END LOOP;
+    END IF;
+
+    _count := _count + 1;
+  END LOOP;
+
+  RETURN _count;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.import_products(JSONB) TO authenticated;
@@ -0,0 +1,52 @@
+-- Write product snapshots from a bulk edit (or its undo) in a single transaction
+CREATE OR REPLACE FUNCTION public.bulk_update_products(_snapshots JSONB)
+RETURNS INTEGER
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _item JSONB;
+  _variant JSONB;
+  _product_id UUID;
+  _count INTEGER := 0;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can bulk edit products';
+  END IF;
+
+  FOR _item IN SELECT * FROM jsonb_array_elements(_snapshots) LOOP
+    _product_id := (_item->>'id')::UUID;
+
+    UPDATE public.products SET
+      is_active = (_item->>'is_active')::BOOLEAN,
+      archived_at = (_item->>'archived_at')::TIMESTAMP WITH TIME ZONE,
+      price = (_item->>'price')::NUMERIC,
+      stock_count = (_item->>'stock_count')::INTEGER
+    WHERE id = _product_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Product % no longer exists', _product_id;
+    END IF;
+
+    DELETE FROM public.product_categories WHERE product_id = _product_id;
+    INSERT INTO public.product_categories (product_id, category_id)
+    SELECT _product_id, category_id::UUID
+    FROM jsonb_array_elements_text(_item->'category_ids') AS category_id;
+
+    FOR _variant IN SELECT * FROM jsonb_array_elements(_item->'variants') LOOP
+      UPDATE public.product_variants SET
+        price = (_variant->>'price')::NUMERIC,
+        stock_count = (_variant->>'stock_count')::INTEGER,
+        is_active = (_variant->>'is_active')::BOOLEAN
+      WHERE id = (_variant->>'id')::UUID AND product_id = _product_id;
+    END LOOP;
+
+    _count := _count + 1;
+  END LOOP;
+
+  RETURN _count;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.bulk_update_products(JSONB) TO authenticated;
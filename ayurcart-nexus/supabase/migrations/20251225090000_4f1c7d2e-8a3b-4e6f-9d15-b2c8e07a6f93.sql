@@ -0,0 +1,47 @@
+-- Admins manage catalog and blog images, including removing ones nothing uses any more
+CREATE POLICY "Admins can delete product and blog media"
+  ON storage.objects FOR DELETE
+  TO authenticated
+  USING (
+    bucket_id IN ('product-images', 'blog-media')
+    AND public.has_role(auth.uid(), 'admin')
+  );
+
+-- Storage objects no product, product image or blog refers to. Resized uploads are stored as
+-- <id>-<width>w.webp, so every size counts as used when any one of them is referenced. Objects younger
+-- than a day are left out so files from a form that is still being filled in are not reported.
+CREATE OR REPLACE FUNCTION public.find_orphaned_media()
+RETURNS TABLE (bucket_id TEXT, name TEXT, size BIGINT, created_at TIMESTAMPTZ)
+LANGUAGE PLPGSQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can clean up media';
+  END IF;
+
+  RETURN QUERY
+  WITH refs AS (
+    SELECT pi.url AS ref FROM public.product_images pi
+    UNION ALL SELECT pi.storage_path FROM public.product_images pi WHERE pi.storage_path IS NOT NULL
+    UNION ALL SELECT p.image_url FROM public.products p WHERE p.image_url IS NOT NULL
+    UNION ALL SELECT b.image_url FROM public.blogs b WHERE b.image_url IS NOT NULL
+    UNION ALL SELECT b.media::TEXT FROM public.blogs b WHERE b.media IS NOT NULL
+  )
+  SELECT o.bucket_id::TEXT, o.name::TEXT, COALESCE((o.metadata->>'size')::BIGINT, 0), o.created_at
+  FROM storage.objects o
+  WHERE o.bucket_id IN ('product-images', 'blog-media')
+    AND o.created_at < NOW() - INTERVAL '1 day'
+    AND o.name NOT LIKE '%.emptyFolderPlaceholder'
+    AND NOT EXISTS (
+      SELECT 1
+      FROM refs
+      WHERE strpos(refs.ref, regexp_replace(o.name, '-\d+w\.(webp|jpg)$', '')) > 0
+    )
+  ORDER BY o.bucket_id, o.name;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.find_orphaned_media() TO authenticated;
@@ -0,0 +1,86 @@
+-- Audit trail of product edits: one row per update, holding only the columns that changed
+CREATE TABLE public.product_revisions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id UUID REFERENCES public.products(id) ON DELETE CASCADE NOT NULL,
+  changed_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  old_values JSONB NOT NULL,
+  new_values JSONB NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX product_revisions_product_id_idx ON public.product_revisions (product_id, created_at DESC);
+
+ALTER TABLE public.product_revisions ENABLE ROW LEVEL SECURITY;
+
+-- Rows are only written by the trigger below and never edited
+CREATE POLICY "Admins can view product revisions"
+  ON public.product_revisions FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- Columns kept up to date by other triggers are left out, so ratings and sales don't create revisions
+CREATE OR REPLACE FUNCTION public.record_product_revision()
+RETURNS TRIGGER
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _old JSONB := to_jsonb(OLD) - 'updated_at' - 'search_vector' - 'average_rating' - 'review_count' - 'sold_count';
+  _new JSONB := to_jsonb(NEW) - 'updated_at' - 'search_vector' - 'average_rating' - 'review_count' - 'sold_count';
+  _changed TEXT[];
+BEGIN
+  SELECT array_agg(n.key) INTO _changed
+  FROM jsonb_each(_new) n
+  WHERE n.value IS DISTINCT FROM _old->n.key;
+
+  IF _changed IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.product_revisions (product_id, changed_by, old_values, new_values)
+  SELECT
+    NEW.id,
+    (SELECT p.id FROM public.profiles p WHERE p.id = auth.uid()),
+    (SELECT jsonb_object_agg(o.key, o.value) FROM jsonb_each(_old) o WHERE o.key = ANY(_changed)),
+    (SELECT jsonb_object_agg(n.key, n.value) FROM jsonb_each(_new) n WHERE n.key = ANY(_changed));
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER record_product_revision
+  AFTER UPDATE ON public.products
+  FOR EACH ROW EXECUTE FUNCTION public.record_product_revision();
+
+-- Writes a revision's old values back; the revert itself is recorded as a new revision
+CREATE OR REPLACE FUNCTION public.revert_product_revision(_revision_id UUID)
+RETURNS VOID
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _revision public.product_revisions%ROWTYPE;
+  _columns TEXT;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can revert product changes';
+  END IF;
+
+  SELECT * INTO _revision FROM public.product_revisions WHERE id = _revision_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Revision not found';
+  END IF;
+
+  -- Keys come from the trigger above, so they are always products columns
+  SELECT string_agg(format('%I = r.%I', key, key), ', ') INTO _columns
+  FROM jsonb_object_keys(_revision.old_values) key;
+
+  EXECUTE format(
+    'UPDATE public.products p SET %s FROM jsonb_populate_record(NULL::public.products, $1) r WHERE p.id = $2',
+    _columns
+  ) USING _revision.old_values, _revision.product_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.revert_product_revision(UUID) TO authenticated;
@@ -0,0 +1,41 @@
+-- Adds a guest cart to the caller's cart on sign-in. Quantities for a product or size that is already in
+-- the cart are summed, and every line is capped at the stock on hand. Archived, inactive and sold-out
+-- items are skipped.
+CREATE OR REPLACE FUNCTION public.merge_guest_cart(_items JSONB)
+RETURNS INTEGER
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _merged INTEGER;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  INSERT INTO public.cart_items (user_id, product_id, variant_id, quantity)
+  SELECT auth.uid(), p.id, v.id, LEAST(SUM(i.quantity), COALESCE(v.stock_count, p.stock_count))
+  FROM jsonb_to_recordset(_items) AS i(product_id UUID, variant_id UUID, quantity INTEGER)
+  JOIN public.products p ON p.id = i.product_id
+  LEFT JOIN public.product_variants v ON v.id = i.variant_id
+  WHERE i.quantity > 0
+    AND p.is_active = true
+    AND (i.variant_id IS NULL OR (v.product_id = p.id AND v.is_active = true))
+    AND COALESCE(v.stock_count, p.stock_count) > 0
+  GROUP BY p.id, v.id, p.stock_count, v.stock_count
+  ON CONFLICT (user_id, product_id, variant_id) DO UPDATE
+    SET quantity = LEAST(
+      cart_items.quantity + EXCLUDED.quantity,
+      COALESCE(
+        (SELECT stock_count FROM public.product_variants WHERE id = EXCLUDED.variant_id),
+        (SELECT stock_count FROM public.products WHERE id = EXCLUDED.product_id)
+      )
+    );
+
+  GET DIAGNOSTICS _merged = ROW_COUNT;
+  RETURN _merged;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.merge_guest_cart(JSONB) TO authenticated;
@@ -0,0 +1,4 @@
+-- Order subtotal from which shipping is free; the mini-cart shows how far off it the shopper is
+INSERT INTO public.store_settings (key, value)
+VALUES ('free_shipping_threshold', '50')
+ON CONFLICT (key) DO NOTHING;
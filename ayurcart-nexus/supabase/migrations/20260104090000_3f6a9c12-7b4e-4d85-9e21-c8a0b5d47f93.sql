@@ -0,0 +1,26 @@
+-- Let shoppers check their own purchase without being able to probe anyone else's
+CREATE OR REPLACE FUNCTION public.has_purchased(_product_id UUID)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT auth.uid() IS NOT NULL
+    AND public.has_purchased_product(auth.uid(), _product_id)
+$$;
+
+GRANT EXECUTE ON FUNCTION public.has_purchased(UUID) TO authenticated;
+
+-- The insert policy runs as the shopper, so it must go through the wrapper too
+DROP POLICY "Customers can review delivered products" ON public.product_reviews;
+
+CREATE POLICY "Customers can review delivered products"
+  ON public.product_reviews FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND public.has_purchased(product_id)
+  );
+
+-- The two-argument form is only for the prepare_product_review trigger
+REVOKE EXECUTE ON FUNCTION public.has_purchased_product(UUID, UUID) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,90 @@
+-- Bulk edits now send patches instead of full snapshots. A patch names only the columns the
+-- edit changes, together with the values they must still hold, so an undo can't overwrite
+-- edits, orders or restocks made in the meantime
+DROP FUNCTION public.bulk_update_products(JSONB);
+
+-- Returns the ids of products that changed since the patch was built; those are left untouched
+CREATE FUNCTION public.bulk_update_products(_patches JSONB)
+RETURNS UUID[]
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _patch JSONB;
+  _variant JSONB;
+  _product_id UUID;
+  _product public.products%ROWTYPE;
+  _current public.product_variants%ROWTYPE;
+  _matches BOOLEAN;
+  _columns TEXT;
+  _skipped UUID[] := '{}';
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can bulk edit products';
+  END IF;
+
+  FOR _patch IN SELECT * FROM jsonb_array_elements(_patches) LOOP
+    _product_id := (_patch->>'id')::UUID;
+
+    -- Overlaying the expected values must leave the locked row as it is
+    SELECT * INTO _product FROM public.products WHERE id = _product_id FOR UPDATE;
+    _matches := FOUND
+      AND to_jsonb(jsonb_populate_record(_product, _patch->'expected')) = to_jsonb(_product);
+
+    FOR _variant IN SELECT * FROM jsonb_array_elements(_patch->'variants') LOOP
+      EXIT WHEN NOT _matches;
+
+      SELECT * INTO _current FROM public.product_variants
+      WHERE id = (_variant->>'id')::UUID AND product_id = _product_id
+      FOR UPDATE;
+      _matches := FOUND
+        AND to_jsonb(jsonb_populate_record(_current, _variant->'expected')) = to_jsonb(_current);
+    END LOOP;
+
+    IF NOT _matches THEN
+      _skipped := _skipped || _product_id;
+      CONTINUE;
+    END IF;
+
+    SELECT string_agg(format('%I = r.%I', key, key), ', ') INTO _columns
+    FROM jsonb_object_keys(_patch->'values') key
+    WHERE key IN ('is_active', 'archived_at', 'price', 'stock_count');
+
+    IF _columns IS NOT NULL THEN
+      EXECUTE format(
+        'UPDATE public.products p SET %s FROM jsonb_populate_record(NULL::public.products, $1) r WHERE p.id = $2',
+        _columns
+      ) USING _patch->'values', _product_id;
+    END IF;
+
+    FOR _variant IN SELECT * FROM jsonb_array_elements(_patch->'variants') LOOP
+      SELECT string_agg(format('%I = r.%I', key, key), ', ') INTO _columns
+      FROM jsonb_object_keys(_variant->'values') key
+      WHERE key IN ('is_active', 'price', 'stock_count');
+
+      IF _columns IS NOT NULL THEN
+        EXECUTE format(
+          'UPDATE public.product_variants v SET %s FROM jsonb_populate_record(NULL::public.product_variants, $1) r WHERE v.id = $2',
+          _columns
+        ) USING _variant->'values', (_variant->>'id')::UUID;
+      END IF;
+    END LOOP;
+
+    DELETE FROM public.product_categories
+    WHERE product_id = _product_id
+      AND category_id IN (
+        SELECT category_id::UUID FROM jsonb_array_elements_text(_patch->'remove_category_ids') AS category_id
+      );
+
+    INSERT INTO public.product_categories (product_id, category_id)
+    SELECT _product_id, category_id::UUID
+    FROM jsonb_array_elements_text(_patch->'add_category_ids') AS category_id
+    ON CONFLICT DO NOTHING;
+  END LOOP;
+
+  RETURN _skipped;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.bulk_update_products(JSONB) TO authenticated;
@@ -0,0 +1,150 @@
+-- Size changes are recorded next to the product's own. The size name is kept so its history still
+-- reads after the size is removed.
+ALTER TABLE public.product_revisions
+  ADD COLUMN variant_id UUID REFERENCES public.product_variants(id) ON DELETE SET NULL,
+  ADD COLUMN variant_name TEXT;
+
+-- Stock, the cover image and allergens are also written by other triggers and by checkout, and so
+-- is the price of a product with sizes. Those columns are only recorded when an admin writes them
+-- directly, so orders and syncs don't show up as edits nobody made.
+CREATE OR REPLACE FUNCTION public.record_product_revision()
+RETURNS TRIGGER
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _manual BOOLEAN := pg_trigger_depth() = 1 AND public.has_role(auth.uid(), 'admin');
+  _skipped TEXT[] := ARRAY['updated_at', 'search_vector', 'average_rating', 'review_count', 'sold_count'];
+  _old JSONB;
+  _new JSONB;
+  _changed TEXT[];
+BEGIN
+  IF NOT _manual THEN
+    _skipped := _skipped || ARRAY['stock_count', 'price', 'image_url', 'allergens'];
+  END IF;
+
+  _old := to_jsonb(OLD) - _skipped;
+  _new := to_jsonb(NEW) - _skipped;
+
+  SELECT array_agg(n.key) INTO _changed
+  FROM jsonb_each(_new) n
+  WHERE n.value IS DISTINCT FROM _old->n.key;
+
+  IF _changed IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.product_revisions (product_id, changed_by, old_values, new_values)
+  SELECT
+    NEW.id,
+    (SELECT p.id FROM public.profiles p WHERE p.id = auth.uid()),
+    (SELECT jsonb_object_agg(o.key, o.value) FROM jsonb_each(_old) o WHERE o.key = ANY(_changed)),
+    (SELECT jsonb_object_agg(n.key, n.value) FROM jsonb_each(_new) n WHERE n.key = ANY(_changed));
+
+  RETURN NEW;
+END;
+$$;
+
+-- Same rule for sizes: price and SKU always, stock only when an admin sets it
+CREATE OR REPLACE FUNCTION public.record_variant_revision()
+RETURNS TRIGGER
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _manual BOOLEAN := pg_trigger_depth() = 1 AND public.has_role(auth.uid(), 'admin');
+  _old JSONB := jsonb_build_object('price', OLD.price, 'sku', OLD.sku);
+  _new JSONB := jsonb_build_object('price', NEW.price, 'sku', NEW.sku);
+  _changed TEXT[];
+BEGIN
+  IF _manual THEN
+    _old := _old || jsonb_build_object('stock_count', OLD.stock_count);
+    _new := _new || jsonb_build_object('stock_count', NEW.stock_count);
+  END IF;
+
+  SELECT array_agg(n.key) INTO _changed
+  FROM jsonb_each(_new) n
+  WHERE n.value IS DISTINCT FROM _old->n.key;
+
+  IF _changed IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.product_revisions (product_id, variant_id, variant_name, changed_by, old_values, new_values)
+  SELECT
+    NEW.product_id,
+    NEW.id,
+    NEW.name,
+    (SELECT p.id FROM public.profiles p WHERE p.id = auth.uid()),
+    (SELECT jsonb_object_agg(o.key, o.value) FROM jsonb_each(_old) o WHERE o.key = ANY(_changed)),
+    (SELECT jsonb_object_agg(n.key, n.value) FROM jsonb_each(_new) n WHERE n.key = ANY(_changed));
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER record_variant_revision
+  AFTER UPDATE ON public.product_variants
+  FOR EACH ROW EXECUTE FUNCTION public.record_variant_revision();
+
+-- Stock is audited but never written back, since orders have moved it since. Derived columns are
+-- skipped too, which also covers revisions recorded before the rules above.
+CREATE OR REPLACE FUNCTION public.revert_product_revision(_revision_id UUID)
+RETURNS VOID
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _revision public.product_revisions%ROWTYPE;
+  _values JSONB;
+  _columns TEXT;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can revert product changes';
+  END IF;
+
+  SELECT * INTO _revision FROM public.product_revisions WHERE id = _revision_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Revision not found';
+  END IF;
+
+  IF _revision.variant_name IS NOT NULL THEN
+    IF _revision.variant_id IS NULL THEN
+      RAISE EXCEPTION 'The size % has been removed', _revision.variant_name;
+    END IF;
+
+    _values := _revision.old_values - 'stock_count';
+  ELSE
+    _values := _revision.old_values - ARRAY['stock_count', 'image_url', 'allergens'];
+
+    IF EXISTS (
+      SELECT 1 FROM public.product_variants WHERE product_id = _revision.product_id AND is_active = true
+    ) THEN
+      _values := _values - 'price';
+    END IF;
+  END IF;
+
+  -- Keys come from the triggers above, so they are always columns of the revised table
+  SELECT string_agg(format('%I = r.%I', key, key), ', ') INTO _columns
+  FROM jsonb_object_keys(_values) key;
+
+  IF _columns IS NULL THEN
+    RAISE EXCEPTION 'Stock and prices set by sizes can''t be reverted here';
+  END IF;
+
+  IF _revision.variant_name IS NOT NULL THEN
+    EXECUTE format(
+      'UPDATE public.product_variants v SET %s FROM jsonb_populate_record(NULL::public.product_variants, $1) r WHERE v.id = $2',
+      _columns
+    ) USING _values, _revision.variant_id;
+  ELSE
+    EXECUTE format(
+      'UPDATE public.products p SET %s FROM jsonb_populate_record(NULL::public.products, $1) r WHERE p.id = $2',
+      _columns
+    ) USING _values, _revision.product_id;
+  END IF;
+END;
+$$;
@@ -0,0 +1,3 @@
+-- Realtime can't apply RLS to deletes, so with a full replica identity every subscriber received
+-- other customers' whole cart rows. With the default identity a delete only carries the line id.
+ALTER TABLE public.cart_items REPLICA IDENTITY DEFAULT;
@@ -1,23 +1,37 @@
-import { defineConfig } from "vite";
+import { defineConfig, loadEnv } from "vite";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
 import { componentTagger } from "lovable-tagger";
+import { prerender } from "./scripts/prerender";
 
 // https://vitejs.dev/config/
-export default defineConfig(({ mode }) => ({
-  server: {
-    host: "::",
-    port: 8080,
-  },
+export default defineConfig(({ mode }) => {
+  const env = loadEnv(mode, process.cwd(), "");
 
-  // ⭐ Netlify FIX: Always use relative path ⭐
-  base: "./",
+  return {
+    server: {
+      host: "::",
+      port: 8080,
+    },
+
+    // ⭐ Netlify FIX: Always use relative path ⭐
+    base: "./",
 
-  plugins: [react(), mode === "development" && componentTagger()].filter(Boolean),
+    plugins: [
+      react(),
+      mode === "development" && componentTagger(),
+      // Netlify exposes the deploy's public URL as URL
+      prerender({
+        supabaseUrl: env.VITE_SUPABASE_URL,
+        supabaseKey: env.VITE_SUPABASE_PUBLISHABLE_KEY,
+        siteUrl: env.SITE_URL || env.URL,
+      }),
+    ].filter(Boolean),
 
-  resolve: {
-    alias: {
-      "@": path.resolve(__dirname, "./src"),
+    resolve: {
+      alias: {
+        "@": path.resolve(__dirname, "./src"),
+      },
     },
-  },
-}));
+  };
+});